@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addAnalysisRunItems, getAnalysisRun, isAnalysisRunOwner } from '@/services/analysisRuns';
+import { getRequestProfile } from '@/lib/serverAuth';
+import { RawKBidItem } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Add more scraped items to an existing run
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const { raw_items: rawItems }: { raw_items?: RawKBidItem[] } = await request.json();
+
+    if (!rawItems || rawItems.length === 0) {
+      return NextResponse.json({ success: false, error: 'No items to add' }, { status: 400 });
+    }
+
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ success: false, error: 'Sign in to open this analysis run' }, { status: 401 });
+    }
+    if (!await isAnalysisRunOwner(id, profile.id)) {
+      return NextResponse.json({ success: false, error: 'Analysis run not found' }, { status: 404 });
+    }
+
+    if (!await addAnalysisRunItems(id, rawItems)) {
+      return NextResponse.json({ success: false, error: 'Analysis run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getAnalysisRun(id));
+  } catch (error) {
+    console.error('Analysis run append error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
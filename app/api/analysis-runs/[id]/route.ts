@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisRun, isAnalysisRunOwner, processAnalysisRun } from '@/services/analysisRuns';
+import { getRequestProfile } from '@/lib/serverAuth';
+
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic';
+
+// GET - Progress and results so far, plus the submitted items so a client
+// can pick the run back up after a reload
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ success: false, error: 'Sign in to open this analysis run' }, { status: 401 });
+    }
+    if (!await isAnalysisRunOwner(id, profile.id)) {
+      return NextResponse.json({ success: false, error: 'Analysis run not found' }, { status: 404 });
+    }
+
+    const run = await getAnalysisRun(id, true);
+
+    if (!run) {
+      return NextResponse.json({ success: false, error: 'Analysis run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Analysis run fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Analyze up to max_items more of the run's items (all of them if
+// omitted) within this request's time budget. Safe to repeat after a timeout.
+// With retry_failed, re-runs only the items that failed. Closing the request
+// cancels the items in flight.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const body: { max_items?: number; retry_failed?: boolean } = await request.json().catch(() => ({}));
+
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ success: false, error: 'Sign in to open this analysis run' }, { status: 401 });
+    }
+    if (!await isAnalysisRunOwner(id, profile.id)) {
+      return NextResponse.json({ success: false, error: 'Analysis run not found' }, { status: 404 });
+    }
+
+    if (!process.env.ANTHROPIC_API_KEY) {
+      return NextResponse.json({ success: false, error: 'ANTHROPIC_API_KEY is not configured' }, { status: 500 });
+    }
+    if (!process.env.SERPER_API_KEY) {
+      return NextResponse.json({ success: false, error: 'SERPER_API_KEY is not configured' }, { status: 500 });
+    }
+
+    const run = await processAnalysisRun(id, {
+      maxItems: body.max_items,
+      retryFailed: body.retry_failed,
+      signal: request.signal
+    });
+
+    if (!run) {
+      return NextResponse.json({ success: false, error: 'Analysis run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Analysis run error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAnalysisRunOwner, processAnalysisRun } from '@/services/analysisRuns';
+import { getRequestProfile } from '@/lib/serverAuth';
+import { AnalysisStreamEvent } from '@/lib/types';
+
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic';
+
+// POST - Same work as POST /api/analysis-runs/[id], streamed as server-sent
+// events: each item's stage as it starts, each result as it finishes, then
+// the whole run in a final `done` event. Accepts the same max_items and
+// retry_failed; aborting the request cancels the run's items in flight.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const { id } = await params;
+  const body: { max_items?: number; retry_failed?: boolean } = await request.json().catch(() => ({}));
+
+  const profile = await getRequestProfile(request);
+  if (!profile) {
+    return NextResponse.json({ success: false, error: 'Sign in to open this analysis run' }, { status: 401 });
+  }
+  if (!await isAnalysisRunOwner(id, profile.id)) {
+    return NextResponse.json({ success: false, error: 'Analysis run not found' }, { status: 404 });
+  }
+
+  if (!process.env.ANTHROPIC_API_KEY) {
+    return NextResponse.json({ success: false, error: 'ANTHROPIC_API_KEY is not configured' }, { status: 500 });
+  }
+  if (!process.env.SERPER_API_KEY) {
+    return NextResponse.json({ success: false, error: 'SERPER_API_KEY is not configured' }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      // If the client goes away, request.signal cancels the items in flight; stop writing
+      let open = true;
+      const send = (event: AnalysisStreamEvent) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          open = false;
+        }
+      };
+
+      try {
+        const run = await processAnalysisRun(id, {
+          maxItems: body.max_items,
+          retryFailed: body.retry_failed,
+          signal: request.signal,
+          onEvent: send
+        });
+        send(run ? { type: 'done', run } : { type: 'error', error: 'Analysis run not found' });
+      } catch (error) {
+        console.error('Analysis stream error:', error);
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+
+      if (open) controller.close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAnalysisRun, getAnalysisRun } from '@/services/analysisRuns';
+import { BatchAnalysisParams } from '@/services/batchAnalyzer';
+import { profileExclusionRules } from '@/lib/supabase';
+import { getRequestProfile } from '@/lib/serverAuth';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Submit scraped items as a new analysis run. Nothing is analyzed
+// yet: call POST /api/analysis-runs/[id] to work on it.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { raw_items: rawItems, ...settings }: BatchAnalysisParams = await request.json();
+
+    if (settings.profit_min_dollars === undefined ||
+        settings.profit_min_percent === undefined ||
+        !rawItems || rawItems.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required parameters or no items to analyze' },
+        { status: 400 }
+      );
+    }
+
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ success: false, error: 'Sign in to run an analysis' }, { status: 401 });
+    }
+
+    // Exclusion rules come from the user's profile, never from the request
+    const runId = await createAnalysisRun({ ...settings, exclusion_rules: profileExclusionRules(profile) }, rawItems, profile.id);
+    const run = await getAnalysisRun(runId);
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Analysis run create error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
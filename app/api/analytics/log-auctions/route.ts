@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase, AnalyzedAuctionInsert } from '@/lib/supabase';
 import { AnalyzedItem } from '@/lib/types';
+import { DEFAULT_AUCTION_TERMS } from '@/lib/config';
+import { totalAcquisitionCost } from '@/services/profitCalculator';
+import { saveBidHistory } from '@/services/bidHistory';
 
 export const dynamic = 'force-dynamic';
 
@@ -19,9 +22,9 @@ export async function POST(request: NextRequest) {
     // Transform items to database format
     const auctionRecords: AnalyzedAuctionInsert[] = items.map(item => {
       // Overpay = total cost exceeds value after selling fees (excludes shipping)
-      // This accounts for: K-Bid 10% buyer premium and selling fees only
-      const BUYER_PREMIUM = 1.10;
-      const actualTotalCost = item.item.currentBid * BUYER_PREMIUM;
+      // This accounts for: the auction's buyer premium, tax, lot fees and selling fees
+      const terms = item.item.auctionTerms || DEFAULT_AUCTION_TERMS;
+      const actualTotalCost = totalAcquisitionCost(item.item.currentBid, terms);
       const netValueAfterFees = item.valuation.estimatedValue - item.profit.fees;
       const isOverbid = actualTotalCost > netValueAfterFees;
       // Overpay amount is how much over the net value they paid
@@ -39,7 +42,7 @@ export async function POST(request: NextRequest) {
         size_class: item.item.sizeClass,
         auction_url: item.item.auctionUrl,
         image_url: item.item.imageUrl,
-        auction_end_date: item.item.auctionEndDate,
+        auction_end_date: item.item.closesAt || item.item.auctionEndDate,
         bid_count: item.item.bidCount || 0,
         bidder_count: item.item.bidderCount || 0,
         interest_level: item.item.interestLevel,
@@ -64,16 +67,20 @@ export async function POST(request: NextRequest) {
         valuation_reasoning: item.valuation.reasoning,
         valuation_low: item.valuation.lowEstimate,
         valuation_high: item.valuation.highEstimate,
+        buyer_premium_rate: terms.buyerPremiumRate,
+        sales_tax_rate: terms.salesTaxRate,
+        lot_fee: terms.lotFee,
       };
     });
 
     // Insert into database (upsert on auction_url to avoid duplicates)
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('analyzed_auctions')
       .upsert(auctionRecords, {
         onConflict: 'auction_url',
         ignoreDuplicates: false
-      });
+      })
+      .select('id, auction_url');
 
     if (error) {
       console.error('Failed to log auctions:', error);
@@ -81,6 +88,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: true, logged: 0, error: error.message });
     }
 
+    await saveBidHistory(data || [], items.map(item => item.item));
+
     // Update category stats
     await updateCategoryStats(auctionRecords);
 
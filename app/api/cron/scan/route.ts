@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runScheduledScans } from '@/services/scheduledScan';
+
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic';
+
+// Vercel cron sends "Authorization: Bearer $CRON_SECRET"; local schedulers
+// (cron + curl, etc.) should send the same header
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+async function handleScan(request: NextRequest): Promise<NextResponse> {
+  if (!process.env.CRON_SECRET) {
+    return NextResponse.json({ success: false, error: 'CRON_SECRET is not configured' }, { status: 500 });
+  }
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!process.env.ANTHROPIC_API_KEY || !process.env.SERPER_API_KEY) {
+    return NextResponse.json({ success: false, error: 'ANTHROPIC_API_KEY and SERPER_API_KEY are required' }, { status: 500 });
+  }
+
+  try {
+    const summary = await runScheduledScans();
+    console.log(`Scheduled scan finished: ${summary.profiles.length} run, ${summary.remaining} left for next time`);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Scheduled scan error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel cron issues GET requests
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  return handleScan(request);
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  return handleScan(request);
+}
@@ -1,12 +1,24 @@
 import { NextResponse } from 'next/server';
+import { getRecentHealthReports } from '@/services/scrapeHealth';
+
+export const dynamic = 'force-dynamic';
 
 export async function GET() {
+  const reports = await getRecentHealthReports(10);
+  const latest = reports[0] || null;
+
   return NextResponse.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
     env: {
       hasAnthropicKey: !!process.env.ANTHROPIC_API_KEY,
       hasSerperKey: !!process.env.SERPER_API_KEY
+    },
+    scraper: {
+      // 'degraded' when the most recent scrape tripped any threshold
+      status: !latest ? 'unknown' : latest.warnings.length > 0 ? 'degraded' : 'ok',
+      latest,
+      recent: reports
     }
   });
 }
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { scrapeKBid } from '@/services/kbidScraper';
-import { RawKBidItem } from '@/lib/types';
+import { scrapeAuctions, scrapeSavedSearch, ScrapeResult } from '@/services/auctionScraper';
+import { auctionSourceIds, getAuctionSource } from '@/services/auctionSource';
+import { saveHealthReport } from '@/services/scrapeHealth';
+import { RawKBidItem, SavedSearch, ScrapeHealthReport, SkippedAuction, Territory } from '@/lib/types';
 import { SCRAPE_CONFIG } from '@/lib/config';
+import { centralDateString } from '@/lib/auctionTime';
+import { getRequestProfile } from '@/lib/serverAuth';
+import { UserProfile } from '@/lib/supabase';
 
 export const maxDuration = 60; // Scraping is fast, 60s is plenty
 export const dynamic = 'force-dynamic';
@@ -11,53 +16,104 @@ interface ScrapeRequest {
   start_date: string;
   end_date: string;
   single_auction_url?: string; // Optional: scrape a specific auction
+  source?: string; // Optional: auction source to read the index of ('kbid' by default)
+  saved_search?: SavedSearch; // Optional: run a saved keyword search instead of the index
+  include_lot_details?: boolean; // Optional: fetch each lot's detail page
 }
 
 interface ScrapeResponse {
   success: boolean;
   items: RawKBidItem[];
   totalCount: number;
+  skippedAuctions: SkippedAuction[]; // Index auctions not scraped, with the reason
+  health?: ScrapeHealthReport;
   error?: string;
 }
 
+// The territory set on the signed-in user's profile by an admin. Only filter by
+// distance when it has a radius and a center to measure from.
+function getTerritory(profile: UserProfile | null): Territory | undefined {
+  if (!profile?.territory_radius_miles || profile.territory_radius_miles <= 0) return undefined;
+  const hasCoords = profile.territory_lat != null && profile.territory_lng != null;
+  if (!hasCoords && !profile.territory_zip) return undefined;
+
+  return {
+    zip: profile.territory_zip,
+    lat: profile.territory_lat,
+    lng: profile.territory_lng,
+    radiusMiles: profile.territory_radius_miles
+  };
+}
+
+// Persist the run's health report (fire and forget) and build the response
+function toResponse({ items, skippedAuctions, health }: ScrapeResult): NextResponse<ScrapeResponse> {
+  saveHealthReport(health).catch(err => {
+    console.error('Failed to save scrape health report:', err);
+  });
+
+  return NextResponse.json({
+    success: true,
+    items,
+    totalCount: items.length,
+    skippedAuctions,
+    health
+  });
+}
+
 export async function POST(request: NextRequest): Promise<NextResponse<ScrapeResponse>> {
   try {
     const params: ScrapeRequest = await request.json();
 
+    const source = getAuctionSource(params.source);
+    if (!source) {
+      return NextResponse.json({
+        success: false,
+        items: [],
+        totalCount: 0,
+        skippedAuctions: [],
+        error: `Unknown source '${params.source}'. Expected one of: ${auctionSourceIds().join(', ')}`
+      }, { status: 400 });
+    }
+
     const maxItems = params.max_items || SCRAPE_CONFIG.maxItems;
     const singleAuctionUrl = params.single_auction_url;
+    const options = {
+      source,
+      includeLotDetails: params.include_lot_details === true,
+      territory: getTerritory(await getRequestProfile(request)),
+      signal: request.signal  // The client closing the request stops the scrape
+    };
+
+    // A saved search carries its own keywords and date window
+    if (params.saved_search) {
+      const result = await scrapeSavedSearch(params.saved_search, maxItems, options);
+      console.log(`Scraped ${result.items.length} items for saved search "${params.saved_search.name}"`);
+
+      return toResponse(result);
+    }
 
     // If single auction URL provided, skip date range logic
     if (singleAuctionUrl) {
       console.log(`Scraping single auction: ${singleAuctionUrl}`);
-      const rawItems = await scrapeKBid(maxItems, '', '', singleAuctionUrl);
-      console.log(`Scraped ${rawItems.length} items from auction`);
+      const result = await scrapeAuctions(maxItems, '', '', singleAuctionUrl, options);
+      console.log(`Scraped ${result.items.length} items from auction`);
 
-      return NextResponse.json({
-        success: true,
-        items: rawItems,
-        totalCount: rawItems.length
-      });
+      return toResponse(result);
     }
 
-    // Default to today through 7 days from now
-    const today = new Date();
-    const defaultStart = today.toISOString().split('T')[0];
-    const defaultEnd = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    // Default to today through 7 days from now (K-Bid's Central dates)
+    const defaultStart = centralDateString();
+    const defaultEnd = centralDateString(7);
     const startDate = params.start_date || defaultStart;
     const endDate = params.end_date || defaultEnd;
 
     console.log(`Scraping up to ${maxItems} items from auctions closing between ${startDate} and ${endDate}...`);
 
-    const rawItems = await scrapeKBid(maxItems, startDate, endDate);
+    const result = await scrapeAuctions(maxItems, startDate, endDate, undefined, options);
 
-    console.log(`Scraped ${rawItems.length} items`);
+    console.log(`Scraped ${result.items.length} items (${result.skippedAuctions.length} auctions skipped)`);
 
-    return NextResponse.json({
-      success: true,
-      items: rawItems,
-      totalCount: rawItems.length
-    });
+    return toResponse(result);
 
   } catch (error) {
     console.error('Scrape error:', error);
@@ -65,6 +121,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScrapeRes
       success: false,
       items: [],
       totalCount: 0,
+      skippedAuctions: [],
       error: error instanceof Error ? error.message : 'Unknown error occurred'
     }, { status: 500 });
   }
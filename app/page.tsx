@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import ParameterForm from '@/components/ParameterForm';
 import ResultsGrid from '@/components/ResultsGrid';
 import LoadingState from '@/components/LoadingState';
@@ -13,17 +13,100 @@ import OverpayObservatory from '@/components/OverpayObservatory';
 import LoginForm from '@/components/LoginForm';
 import AdminUserManager from '@/components/AdminUserManager';
 import { useAuth } from '@/components/AuthProvider';
-import { AnalysisParams, AnalysisResponse, RawKBidItem, AnalyzedItem } from '@/lib/types';
+import { AnalysisParams, AnalysisResponse, AnalysisRunResponse, AnalysisRunProgress, AnalysisStage, AnalysisStreamEvent, FailureReason, ItemFailure, RawKBidItem, AnalyzedItem, SkippedAuction, AuctionSkipReason } from '@/lib/types';
 import { SCRAPE_CONFIG } from '@/lib/config';
-import { WatchlistInsert } from '@/lib/supabase';
+import { WatchlistInsert, authHeaders } from '@/lib/supabase';
 
 const BATCH_SIZE = SCRAPE_CONFIG.batchSize;
+const RUN_STORAGE_KEY = 'kbid-analysis-run'; // Current analysis run, resumed on reload
 
 type AppTab = 'dashboard' | 'analyze' | 'observatory' | 'admin';
 type WorkflowStep = 'idle' | 'scraping' | 'scraped' | 'analyzing' | 'adding';
 type RiskFilter = 'all' | 'low' | 'medium' | 'high';
 type InterestFilter = 'all' | 'low' | 'medium' | 'high';
 
+const SKIP_REASON_LABELS: Record<AuctionSkipReason, string> = {
+  closed: 'already closed',
+  outside_date_range: 'outside date range',
+  outside_territory: 'outside territory',
+  item_limit: 'item limit reached',
+  fetch_failed: 'failed to load',
+  no_open_lots: 'no open lots'
+};
+
+const FAILURE_REASON_LABELS: Record<FailureReason, string> = {
+  image_fetch_failed: 'image fetch failed',
+  json_parse_failed: 'unreadable AI response',
+  serper_error: 'price search error',
+  anthropic_rate_limited: 'AI rate limited',
+  anthropic_error: 'AI error',
+  cancelled: 'cancelled',
+  unknown: 'unknown error'
+};
+
+function countFailureReasons(failures: ItemFailure[]): Partial<Record<FailureReason, number>> {
+  const counts: Partial<Record<FailureReason, number>> = {};
+  for (const failure of failures) {
+    counts[failure.reason] = (counts[failure.reason] || 0) + 1;
+  }
+  return counts;
+}
+
+// Items a run has finished with (analyzed, skipped or failed)
+function finishedCount(progress: AnalysisRunProgress | null): number {
+  return progress ? progress.done + progress.failed : 0;
+}
+
+// Parse an API response, surfacing non-JSON bodies (e.g. a gateway timeout page)
+async function readRunResponse(response: Response): Promise<AnalysisRunResponse> {
+  const text = await response.text();
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`Server error: ${text.substring(0, 200)}`);
+  }
+  if (!data.success) {
+    throw new Error(data.error || 'Analysis run request failed');
+  }
+  return data;
+}
+
+// Feed each server-sent event in a streamed analysis response to onEvent
+async function readAnalysisStream(response: Response, onEvent: (event: AnalysisStreamEvent) => void): Promise<void> {
+  if (!response.ok || !response.body) {
+    await readRunResponse(response); // Throws with the server's error
+    throw new Error('Analysis stream failed');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() || '';
+    for (const frame of frames) {
+      const data = frame.split('\n')
+        .filter(line => line.startsWith('data: '))
+        .map(line => line.slice(6))
+        .join('\n');
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+}
+
+function countSkipReasons(skipped: SkippedAuction[]): Partial<Record<AuctionSkipReason, number>> {
+  const counts: Partial<Record<AuctionSkipReason, number>> = {};
+  for (const auction of skipped) {
+    counts[auction.reason] = (counts[auction.reason] || 0) + 1;
+  }
+  return counts;
+}
+
 export default function Home() {
   const { user, profile, loading: authLoading, isAdmin, signOut } = useAuth();
 
@@ -37,11 +120,22 @@ export default function Home() {
 
   // Raw scraped items
   const [rawItems, setRawItems] = useState<RawKBidItem[]>([]);
-  const [batchIndex, setBatchIndex] = useState(0);
+  const [skippedAuctions, setSkippedAuctions] = useState<SkippedAuction[]>([]);
+
+  // Server-side analysis run the scraped items were submitted to
+  const [runId, setRunId] = useState<string | null>(null);
+  const [runProgress, setRunProgress] = useState<AnalysisRunProgress | null>(null);
+  // Stage each in-flight item is at, by its position in the run (while streaming)
+  const [itemStages, setItemStages] = useState<Record<number, AnalysisStage>>({});
+  // Items the run gave up on, with why
+  const [failures, setFailures] = useState<ItemFailure[]>([]);
+
+  // Aborts the scrape or analysis request in flight ("Stop")
+  const abortRef = useRef<AbortController | null>(null);
 
   // Analysis results (accumulated across batches)
   const [analyzedItems, setAnalyzedItems] = useState<AnalyzedItem[]>([]);
-  const [summary, setSummary] = useState({ totalScraped: 0, totalAnalyzed: 0, totalProfitable: 0, errors: 0 });
+  const [summary, setSummary] = useState<AnalysisResponse['summary']>({ totalScraped: 0, totalAnalyzed: 0, totalProfitable: 0, errors: 0 });
 
   // Store params for batch analysis
   const [currentParams, setCurrentParams] = useState<AnalysisParams | null>(null);
@@ -82,6 +176,42 @@ export default function Home() {
     loadSavedUrls();
   }, []);
 
+  // Pick up the analysis run from before a reload or a timed-out request
+  useEffect(() => {
+    const savedRunId = localStorage.getItem(RUN_STORAGE_KEY);
+    if (!savedRunId) return;
+
+    const resumeRun = async () => {
+      try {
+        const data = await readRunResponse(await fetch(`/api/analysis-runs/${savedRunId}`, { headers: await authHeaders() }));
+        setRunId(data.runId);
+        setRawItems(data.rawItems || []);
+        applyRun(data);
+        setCurrentParams({ ...data.settings, max_items: SCRAPE_CONFIG.maxItems, start_date: '', end_date: '' });
+        setFilterMinProfit(data.settings.profit_min_dollars);
+        setFilterMinROI(data.settings.profit_min_percent);
+        setActiveTab('analyze');
+        setStep('scraped');
+      } catch {
+        // Run is gone or unreachable - start fresh
+        localStorage.removeItem(RUN_STORAGE_KEY);
+      }
+    };
+    resumeRun();
+  }, []);
+
+  // Results and counts always come from the run, so every client sees the same thing
+  const applyRun = (data: AnalysisRunResponse) => {
+    setAnalyzedItems(data.items);
+    setSummary(data.summary);
+    setRunProgress(data.progress);
+    setFailures(data.failures || []);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   // Save item to watchlist
   const handleSaveItem = async (data: AnalyzedItem) => {
     if (!currentParams) return;
@@ -94,7 +224,7 @@ export default function Home() {
       size_class: data.item.sizeClass,
       auction_url: data.item.auctionUrl,
       image_url: data.item.imageUrl,
-      auction_end_date: data.item.auctionEndDate,
+      auction_end_date: data.item.closesAt || data.item.auctionEndDate,
       saved_bid: data.item.currentBid,
       current_bid: data.item.currentBid,
       max_bid: data.profit.maxBid,
@@ -138,8 +268,12 @@ export default function Home() {
     if (!appendMode) {
       // Fresh start - clear everything
       setRawItems([]);
+      setSkippedAuctions([]);
       setAnalyzedItems([]);
-      setBatchIndex(0);
+      setRunId(null);
+      setRunProgress(null);
+      setFailures([]);
+      localStorage.removeItem(RUN_STORAGE_KEY);
       setSummary({ totalScraped: 0, totalAnalyzed: 0, totalProfitable: 0, errors: 0 });
       // Initialize filter sliders from search params
       setFilterMinProfit(params.profit_min_dollars);
@@ -147,16 +281,22 @@ export default function Home() {
     }
 
     setCurrentParams(params);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
       const response = await fetch('/api/scrape-items', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        signal: controller.signal,
+        // The route reads the territory from the signed-in user's profile
+        headers: { 'Content-Type': 'application/json', ...await authHeaders() },
         body: JSON.stringify({
           max_items: params.max_items,
           start_date: params.start_date,
           end_date: params.end_date,
-          single_auction_url: params.single_auction_url
+          single_auction_url: params.single_auction_url,
+          include_lot_details: params.include_lot_details,
+          saved_search: params.saved_search
         })
       });
 
@@ -177,20 +317,51 @@ export default function Home() {
       }
 
       if (appendMode) {
-        // Append new items to existing, update batch index to point to new items
-        const existingCount = rawItems.length;
+        // Append new items to existing; the run analyzes them after the ones already queued
         setRawItems(prev => [...prev, ...data.items]);
-        setBatchIndex(Math.ceil(existingCount / BATCH_SIZE)); // Point to start of new items
-        setSummary(prev => ({ ...prev, totalScraped: prev.totalScraped + data.totalCount }));
+        setSkippedAuctions(prev => [...prev, ...(data.skippedAuctions || [])]);
       } else {
         setRawItems(data.items);
-        setSummary(prev => ({ ...prev, totalScraped: data.totalCount }));
+        setSkippedAuctions(data.skippedAuctions || []);
+      }
+
+      // Submit the items to the server once; analysis then works from the stored run
+      if (data.items.length > 0) {
+        const run = appendMode && runId
+          ? await fetch(`/api/analysis-runs/${runId}/items`, {
+              method: 'POST',
+              signal: controller.signal,
+              headers: { 'Content-Type': 'application/json', ...await authHeaders() },
+              body: JSON.stringify({ raw_items: data.items })
+            })
+          : await fetch('/api/analysis-runs', {
+              method: 'POST',
+              signal: controller.signal,
+              headers: { 'Content-Type': 'application/json', ...await authHeaders() },
+              body: JSON.stringify({
+                profit_min_dollars: params.profit_min_dollars,
+                profit_min_percent: params.profit_min_percent,
+                selling_fee_percent: params.selling_fee_percent,
+                raw_items: data.items,
+                selected_categories: params.selected_categories,
+                travel_cost_per_mile: params.travel_cost_per_mile,
+                travel_time_value_per_hour: params.travel_time_value_per_hour
+              })
+            });
+        const runData = await readRunResponse(run);
+        setRunId(runData.runId);
+        localStorage.setItem(RUN_STORAGE_KEY, runData.runId);
+        applyRun(runData);
       }
 
       setStep('scraped');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to scrape items');
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to scrape items');
+      }
       setStep(appendMode ? 'scraped' : 'idle');
+    } finally {
+      abortRef.current = null;
     }
   };
 
@@ -202,83 +373,124 @@ export default function Home() {
     await handleScrape(params, true);
   };
 
-  const handleAnalyzeBatch = async () => {
-    if (!currentParams || rawItems.length === 0) return;
-
-    const startIdx = batchIndex * BATCH_SIZE;
-    const endIdx = Math.min(startIdx + BATCH_SIZE, rawItems.length);
-    const batchItems = rawItems.slice(startIdx, endIdx);
-
-    if (batchItems.length === 0) return;
+  // Analyze the next batch, or with retryFailed re-run only the failed items
+  const handleAnalyzeBatch = async (retryFailed = false) => {
+    if (!runId) return;
 
     setStep('analyzing');
     setError(null);
-
-    try {
-      const response = await fetch('/api/run-analysis', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          profit_min_dollars: currentParams.profit_min_dollars,
-          profit_min_percent: currentParams.profit_min_percent,
-          selling_fee_percent: currentParams.selling_fee_percent,
-          raw_items: batchItems,
-          selected_categories: currentParams.selected_categories
-        })
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const clearStage = (position: number) => {
+      setItemStages(prev => {
+        const next = { ...prev };
+        delete next[position];
+        return next;
       });
+    };
 
-      const text = await response.text();
-      let data: AnalysisResponse;
-      try {
-        data = JSON.parse(text);
-      } catch {
-        setError(`Server error: ${text.substring(0, 200)}`);
-        setStep('scraped');
-        return;
+    // Results show up as each item finishes; the run's final results (with
+    // pickup trips shared across lots) replace them when the request ends
+    const handleEvent = (event: AnalysisStreamEvent, finished: { run?: AnalysisRunResponse }) => {
+      switch (event.type) {
+        case 'stage':
+          setItemStages(prev => ({ ...prev, [event.position]: event.stage }));
+          break;
+        case 'item':
+          clearStage(event.position);
+          setAnalyzedItems(prev => [...prev, event.item].sort((a, b) => b.profit.expectedProfit - a.profit.expectedProfit));
+          setSummary(prev => ({
+            ...prev,
+            totalAnalyzed: prev.totalAnalyzed + 1,
+            totalProfitable: prev.totalProfitable + (event.item.meetsCriteria ? 1 : 0)
+          }));
+          break;
+        case 'skipped':
+          clearStage(event.position);
+          break;
+        case 'failed':
+          clearStage(event.position);
+          if (!event.willRetry) {
+            setFailures(prev => [...prev, event.failure]);
+            setSummary(prev => ({ ...prev, totalAnalyzed: prev.totalAnalyzed + 1, errors: prev.errors + 1 }));
+          }
+          break;
+        case 'done':
+          finished.run = event.run;
+          break;
+        case 'error':
+          throw new Error(event.error);
       }
+    };
 
-      if (!data.success && data.error) {
-        setError(data.error);
-        setStep('scraped');
-        return;
+    try {
+      // A request can stop short on its time budget; keep going until the
+      // batch is through or the run has nothing left
+      let finished = finishedCount(runProgress);
+      let remaining = retryFailed ? failures.length : BATCH_SIZE;
+      if (retryFailed) {
+        // Retried items are counted again as they finish
+        setFailures([]);
+      }
+      while (remaining > 0) {
+        const result: { run?: AnalysisRunResponse } = {};
+        const response = await fetch(`/api/analysis-runs/${runId}/stream`, {
+          method: 'POST',
+          signal: controller.signal,
+          headers: { 'Content-Type': 'application/json', ...await authHeaders() },
+          body: JSON.stringify({ max_items: remaining, retry_failed: retryFailed })
+        });
+        await readAnalysisStream(response, event => handleEvent(event, result));
+        if (!result.run) {
+          throw new Error('Analysis stopped before finishing');
+        }
+        const data = result.run;
+        applyRun(data);
+        setItemStages({});
+
+        // A retry is a single pass: following it up would claim unanalyzed items too
+        const advanced = finishedCount(data.progress) - finished;
+        if (retryFailed || advanced <= 0 || data.status === 'completed') break;
+        finished += advanced;
+        remaining -= advanced;
       }
 
-      // Append new results to existing
-      setAnalyzedItems(prev => {
-        const combined = [...prev, ...data.items];
-        // Sort by expected profit descending
-        combined.sort((a, b) => b.profit.expectedProfit - a.profit.expectedProfit);
-        return combined;
-      });
-
-      // Update summary
-      setSummary(prev => ({
-        totalScraped: prev.totalScraped,
-        totalAnalyzed: prev.totalAnalyzed + data.summary.totalAnalyzed,
-        totalProfitable: prev.totalProfitable + data.summary.totalProfitable,
-        errors: prev.errors + data.summary.errors
-      }));
-
-      setBatchIndex(prev => prev + 1);
       setStep('scraped');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to analyze batch');
+      setItemStages({});
+      // Whatever finished before the failure is saved on the run
+      try {
+        applyRun(await readRunResponse(await fetch(`/api/analysis-runs/${runId}`, { headers: await authHeaders() })));
+      } catch {
+        // Keep the last results we had
+      }
+      if (!controller.signal.aborted) {
+        const message = err instanceof Error ? err.message : 'Failed to analyze batch';
+        setError(`${message} - progress is saved, analyze again to continue.`);
+      }
       setStep('scraped');
+    } finally {
+      abortRef.current = null;
     }
   };
 
   const handleExportCSV = () => {
     if (!analyzedItems.length) return;
 
-    const headers = ['Title', 'Current Bid', 'Max Bid', 'Est Value', 'Profit', 'ROI %', 'Risk', 'Channel', 'URL'];
+    const headers = ['Title', 'Brand', 'Model', 'Qty', 'Current Bid', 'Max Bid', 'Est Value', 'Profit', 'ROI %', 'Risk', 'Red Flags', 'Channel', 'URL'];
     const rows = analyzedItems.map(({ item, valuation, profit, resale }) => [
       `"${item.title.replace(/"/g, '""')}"`,
+      `"${(item.brand || '').replace(/"/g, '""')}"`,
+      `"${(item.modelNumber || '').replace(/"/g, '""')}"`,
+      item.quantity ?? 1,
       item.currentBid,
       profit.maxBid,
       valuation.estimatedValue,
       profit.expectedProfit,
       profit.expectedROI,
       resale.riskScore,
+      `"${(item.redFlags || []).map(flag => flag.label).join('; ').replace(/"/g, '""')}"`,
       resale.recommendedChannel,
       item.auctionUrl
     ]);
@@ -296,8 +508,12 @@ export default function Home() {
   const handleReset = () => {
     setStep('idle');
     setRawItems([]);
+    setSkippedAuctions([]);
     setAnalyzedItems([]);
-    setBatchIndex(0);
+    setRunId(null);
+    setRunProgress(null);
+    setFailures([]);
+    localStorage.removeItem(RUN_STORAGE_KEY);
     setSummary({ totalScraped: 0, totalAnalyzed: 0, totalProfitable: 0, errors: 0 });
     setCurrentParams(null);
     setError(null);
@@ -309,9 +525,13 @@ export default function Home() {
   };
 
   const isLoading = step === 'scraping' || step === 'analyzing';
-  const hasMoreBatches = rawItems.length > 0 && (batchIndex * BATCH_SIZE) < rawItems.length;
-  const analyzedCount = batchIndex * BATCH_SIZE;
-  const nextBatchEnd = Math.min((batchIndex + 1) * BATCH_SIZE, rawItems.length);
+  const analyzedCount = finishedCount(runProgress);
+  const hasMoreBatches = !!runProgress && analyzedCount < runProgress.total;
+  const nextBatchEnd = Math.min(analyzedCount + BATCH_SIZE, rawItems.length);
+  const stageCounts: Partial<Record<AnalysisStage, number>> = {};
+  for (const stage of Object.values(itemStages)) {
+    stageCounts[stage] = (stageCounts[stage] || 0) + 1;
+  }
 
   // Adjust item values based on shipping toggle and filter
   const filteredItems = analyzedItems
@@ -520,6 +740,12 @@ export default function Home() {
                   Fetching items, extracting bids and images...
                 </p>
               </div>
+              <button
+                onClick={handleStop}
+                className="px-4 py-1.5 rounded font-medium text-sm text-gray-700 dark:text-gray-200 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                Stop
+              </button>
             </div>
           </div>
         )}
@@ -544,7 +770,7 @@ export default function Home() {
               <div className="flex gap-2">
                 {hasMoreBatches && (
                   <button
-                    onClick={handleAnalyzeBatch}
+                    onClick={() => handleAnalyzeBatch()}
                     disabled={step === 'analyzing'}
                     className={`px-4 py-2 rounded font-medium text-white text-sm transition-colors
                       ${step === 'analyzing'
@@ -557,6 +783,14 @@ export default function Home() {
                     )}
                   </button>
                 )}
+                {step === 'analyzing' && (
+                  <button
+                    onClick={handleStop}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded font-medium text-sm transition-colors"
+                  >
+                    Stop
+                  </button>
+                )}
                 {!hasMoreBatches && analyzedItems.length > 0 && (
                   <button
                     onClick={handleAddMore}
@@ -591,6 +825,64 @@ export default function Home() {
                 </div>
               </div>
             )}
+
+            {/* Auctions the scrape didn't cover */}
+            {skippedAuctions.length > 0 && (
+              <details className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                <summary className="cursor-pointer">
+                  {skippedAuctions.length} auctions skipped
+                  {' ('}
+                  {Object.entries(countSkipReasons(skippedAuctions))
+                    .map(([reason, count]) => `${count} ${SKIP_REASON_LABELS[reason as AuctionSkipReason]}`)
+                    .join(', ')}
+                  {')'}
+                </summary>
+                <ul className="mt-2 max-h-48 overflow-y-auto space-y-0.5">
+                  {skippedAuctions.map(auction => (
+                    <li key={auction.url}>
+                      <a href={auction.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                        {auction.title || auction.url}
+                      </a>
+                      {' - '}{SKIP_REASON_LABELS[auction.reason]}
+                      {auction.detail && ` (${auction.detail})`}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {/* Items the analysis gave up on */}
+            {failures.length > 0 && (
+              <div className="mt-3 flex items-start justify-between gap-3">
+                <details className="text-xs text-red-600 dark:text-red-400">
+                  <summary className="cursor-pointer">
+                    {failures.length} items failed
+                    {' ('}
+                    {Object.entries(countFailureReasons(failures))
+                      .map(([reason, count]) => `${count} ${FAILURE_REASON_LABELS[reason as FailureReason]}`)
+                      .join(', ')}
+                    {')'}
+                  </summary>
+                  <ul className="mt-2 max-h-48 overflow-y-auto space-y-0.5 text-gray-500 dark:text-gray-400">
+                    {failures.map(failure => (
+                      <li key={failure.position ?? failure.url} title={failure.message}>
+                        <a href={failure.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                          {failure.title}
+                        </a>
+                        {' - '}{FAILURE_REASON_LABELS[failure.reason]} while {failure.stage}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+                <button
+                  onClick={() => handleAnalyzeBatch(true)}
+                  disabled={step === 'analyzing'}
+                  className="shrink-0 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:text-gray-400"
+                >
+                  Retry failed items
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -598,8 +890,9 @@ export default function Home() {
         {step === 'analyzing' && (
           <LoadingState
             batchSize={BATCH_SIZE}
-            currentBatch={batchIndex + 1}
-            totalItems={rawItems.length - (batchIndex * BATCH_SIZE)}
+            currentBatch={Math.floor(analyzedCount / BATCH_SIZE) + 1}
+            totalItems={rawItems.length - analyzedCount}
+            stageCounts={stageCounts}
           />
         )}
 
@@ -609,7 +902,7 @@ export default function Home() {
         )}
 
         {/* Results */}
-        {analyzedItems.length > 0 && step !== 'analyzing' && step !== 'scraping' && (
+        {analyzedItems.length > 0 && step !== 'scraping' && (
           <div>
             {/* AI Disclaimer */}
             <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-lg">
@@ -625,6 +918,14 @@ export default function Home() {
               <div className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
                 <strong>{summary.totalProfitable}</strong> profitable
                 <span className="hidden sm:inline"> of {summary.totalAnalyzed} analyzed ({summary.totalScraped} scraped)</span>
+                {summary.extractionCache && summary.extractionCache.hits > 0 && (
+                  <span
+                    className="hidden sm:inline ml-2"
+                    title="Lots unchanged since they were last read are taken from the extraction cache instead of Claude"
+                  >
+                    | {summary.extractionCache.hits} of {summary.extractionCache.hits + summary.extractionCache.misses} extractions cached
+                  </span>
+                )}
                 {filteredItems.length !== analyzedItems.length && (
                   <span className="ml-2 text-blue-600 dark:text-blue-400">| Showing {filteredItems.length} filtered</span>
                 )}
@@ -781,7 +1082,12 @@ export default function Home() {
             </div>
 
             {filteredItems.length > 0 ? (
-              <ResultsGrid items={filteredItems} onSave={handleSaveItem} savedUrls={savedUrls} />
+              <ResultsGrid
+                items={filteredItems}
+                onSave={handleSaveItem}
+                savedUrls={savedUrls}
+                stageCounts={step === 'analyzing' ? stageCounts : undefined}
+              />
             ) : (
               <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 text-center text-gray-600 dark:text-gray-400">
                 No items match your current filters. Try adjusting min profit (${filterMinProfit}) or min ROI ({filterMinROI}%).
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { UserProfile, UserProfileUpdate, getAllUsers, updateUserProfile, supabase } from '@/lib/supabase';
+import { CATEGORY_OPTIONS } from '@/lib/config';
 import { useAuth } from './AuthProvider';
 
 interface InviteFormData {
@@ -113,7 +114,8 @@ export default function AdminUserManager() {
       territory_name: user.territory_name,
       is_active: user.is_active,
       license_type: user.license_type,
-      max_items_per_search: user.max_items_per_search
+      max_items_per_search: user.max_items_per_search,
+      categories_allowed: user.categories_allowed || []
     });
   };
 
@@ -295,7 +297,7 @@ export default function AdminUserManager() {
       {/* Edit User Modal */}
       {editingUser && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
             <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-4">
               Edit User: {editingUser.email}
             </h3>
@@ -371,6 +373,32 @@ export default function AdminUserManager() {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Allowed Categories
+                </label>
+                <div className="grid grid-cols-2 gap-1">
+                  {CATEGORY_OPTIONS.map(category => (
+                    <label key={category} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={editForm.categories_allowed?.includes(category) ?? false}
+                        onChange={() => setEditForm(f => {
+                          const current = f.categories_allowed || [];
+                          return {
+                            ...f,
+                            categories_allowed: current.includes(category) ? current.filter(c => c !== category) : [...current, category]
+                          };
+                        })}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <span className="text-xs text-gray-700 dark:text-gray-300">{category}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">None checked allows every category</p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Max Items Per Search
@@ -10,6 +10,7 @@ interface CategoryDeepDive {
   timingAdvice: string;
   riskFactors: string[];
   recommendation: string;
+  source?: 'model' | 'repaired' | 'fallback';
   stats: {
     totalAnalyzed: number;
     profitableCount: number;
@@ -139,6 +140,11 @@ export default function CategoryDeepDiveModal({ category, isOpen, onClose }: Pro
                 <div>
                   <h3 className="font-semibold text-gray-800 dark:text-gray-200 mb-2">Summary</h3>
                   <p className="text-gray-600 dark:text-gray-400">{analysis.summary}</p>
+                  {analysis.source === 'fallback' && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                      General guidance only - no AI analysis is available for this category right now.
+                    </p>
+                  )}
                 </div>
 
                 {/* Why Hot/Cold */}
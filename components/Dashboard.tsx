@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import CategoryDeepDiveModal from './CategoryDeepDiveModal';
+import { ScrapeHealthReport } from '@/lib/types';
 
 interface DashboardStats {
   totalAnalyzed: number;
@@ -55,12 +56,24 @@ export default function Dashboard() {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [categoryModalOpen, setCategoryModalOpen] = useState(false);
   const [clearing, setClearing] = useState(false);
+  const [scraperHealth, setScraperHealth] = useState<ScrapeHealthReport | null>(null);
 
   useEffect(() => {
     loadDashboard();
     loadInsights();
+    loadScraperHealth();
   }, []);
 
+  const loadScraperHealth = async () => {
+    try {
+      const response = await fetch('/api/health');
+      const data = await response.json();
+      setScraperHealth(data.scraper?.latest || null);
+    } catch (err) {
+      console.error('Failed to load scraper health:', err);
+    }
+  };
+
   const loadDashboard = async () => {
     setLoading(true);
     setError(null);
@@ -166,6 +179,20 @@ export default function Dashboard() {
 
   return (
     <div className="space-y-6">
+      {/* Scraper drift warning from the most recent scrape */}
+      {scraperHealth && scraperHealth.warnings.length > 0 && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+          <p className="text-sm font-medium text-yellow-800 dark:text-yellow-300">
+            Last scrape looks degraded ({scraperHealth.totalLots} lots, {new Date(scraperHealth.createdAt).toLocaleString()})
+          </p>
+          <ul className="mt-1 text-xs text-yellow-700 dark:text-yellow-400 list-disc list-inside">
+            {scraperHealth.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Header with Clear Button */}
       {hasData && (
         <div className="flex justify-end">
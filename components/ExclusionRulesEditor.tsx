@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { ParsedItem } from '@/lib/types';
+import { CATEGORY_OPTIONS } from '@/lib/config';
+import { profileExclusionRules, updateUserProfile } from '@/lib/supabase';
+import { useAuth } from './AuthProvider';
+
+const SIZE_OPTIONS: ParsedItem['sizeClass'][] = ['small', 'medium', 'large', 'oversized'];
+
+// The signed-in user's exclusion rules: lots every analysis skips, whatever
+// the categories selected for it. Stored on their profile.
+export default function ExclusionRulesEditor() {
+  const { profile, refreshProfile } = useAuth();
+  const rules = profileExclusionRules(profile);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ categories: [] as string[], keywords: '', maxSize: '', shipping: false });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only categories the account may analyze can be excluded
+  const allowed = CATEGORY_OPTIONS.filter(category =>
+    rules.categories_allowed.length === 0 || rules.categories_allowed.includes(category)
+  );
+
+  const startEdit = () => {
+    setDraft({
+      categories: [...rules.excluded_categories],
+      keywords: rules.excluded_keywords.join(', '),
+      maxSize: rules.max_size_class || '',
+      shipping: rules.shipping_required ?? false
+    });
+    setError(null);
+    setEditing(true);
+  };
+
+  const toggleCategory = (category: string) => {
+    setDraft(d => ({
+      ...d,
+      categories: d.categories.includes(category) ? d.categories.filter(c => c !== category) : [...d.categories, category]
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await updateUserProfile(profile.id, {
+        excluded_categories: draft.categories,
+        excluded_keywords: draft.keywords.split(',').map(part => part.trim()).filter(Boolean),
+        max_size_class: (draft.maxSize || null) as ParsedItem['sizeClass'] | null,
+        shipping_required: draft.shipping
+      });
+      await refreshProfile();
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save exclusion rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const summary = [
+    rules.excluded_categories.length > 0 && rules.excluded_categories.join(', '),
+    rules.excluded_keywords.length > 0 && `lots mentioning ${rules.excluded_keywords.join(', ')}`,
+    rules.max_size_class && `anything larger than ${rules.max_size_class}`,
+    rules.shipping_required && 'pickup-only lots'
+  ].filter(Boolean).join(' · ');
+
+  const inputClass = 'w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 text-sm';
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300">
+          Always Skip
+        </label>
+        {profile && !editing && (
+          <button
+            type="button"
+            onClick={startEdit}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {!editing && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{summary || 'Nothing - every category and size is analyzed'}</p>
+      )}
+
+      {editing && (
+        <div className="p-3 border border-gray-200 dark:border-gray-700 rounded-md space-y-2">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {allowed.map(category => (
+              <label key={category} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.categories.includes(category)}
+                  onChange={() => toggleCategory(category)}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-xs sm:text-sm text-gray-700 dark:text-gray-300">{category}</span>
+              </label>
+            ))}
+          </div>
+          <input type="text" placeholder="Skip lots mentioning, comma separated (e.g. mattress, piano)" value={draft.keywords}
+            onChange={(e) => setDraft(d => ({ ...d, keywords: e.target.value }))} className={inputClass} />
+          <div className="grid grid-cols-2 gap-2 items-center">
+            <select value={draft.maxSize} onChange={(e) => setDraft(d => ({ ...d, maxSize: e.target.value }))} className={inputClass}>
+              <option value="">Any size</option>
+              {SIZE_OPTIONS.slice(0, -1).map(size => (
+                <option key={size} value={size}>Up to {size}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={draft.shipping}
+                onChange={(e) => setDraft(d => ({ ...d, shipping: e.target.checked }))}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500" />
+              <span className="text-sm text-gray-700 dark:text-gray-300">Shipping required</span>
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={handleSave} disabled={saving}
+              className="px-3 py-1 rounded-md text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400">
+              {saving ? 'Saving...' : 'Save Rules'}
+            </button>
+            <button type="button" onClick={() => setEditing(false)}
+              className="px-3 py-1 rounded-md text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -1,15 +1,18 @@
+import { AnalysisStage } from '@/lib/types';
+
 interface Props {
   batchSize?: number;
   currentBatch?: number;
   totalItems?: number;
+  stageCounts?: Partial<Record<AnalysisStage, number>>; // Items in each stage right now, when streaming
 }
 
-export default function LoadingState({ batchSize = 50, currentBatch = 1, totalItems }: Props) {
-  const stages = [
-    'Extracting item details with AI...',
-    'Searching web for comparable prices...',
-    'Calculating profit margins...',
-    'Getting resale recommendations...'
+export default function LoadingState({ batchSize = 50, currentBatch = 1, totalItems, stageCounts }: Props) {
+  const stages: { stage: AnalysisStage; label: string }[] = [
+    { stage: 'extracting', label: 'Extracting item details with AI...' },
+    { stage: 'valuing', label: 'Searching web for comparable prices...' },
+    { stage: 'pricing', label: 'Calculating profit margins...' },
+    { stage: 'advising', label: 'Getting resale recommendations...' }
   ];
 
   return (
@@ -21,10 +24,13 @@ export default function LoadingState({ batchSize = 50, currentBatch = 1, totalIt
           {totalItems && ` (up to ${Math.min(batchSize, totalItems)} items)`}
         </p>
         <div className="w-full max-w-sm space-y-2 mt-2">
-          {stages.map((stage, i) => (
-            <div key={i} className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+          {stages.map(({ stage, label }, i) => (
+            <div key={stage} className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
               <div className="w-1.5 h-1.5 bg-blue-500 rounded-full animate-pulse" style={{ animationDelay: `${i * 0.2}s` }}></div>
-              {stage}
+              {label}
+              {stageCounts && (
+                <span className="ml-auto font-medium text-gray-700 dark:text-gray-300">{stageCounts[stage] || 0}</span>
+              )}
             </div>
           ))}
         </div>
@@ -1,8 +1,13 @@
 'use client';
 
 import { useState } from 'react';
-import { AnalysisParams } from '@/lib/types';
-import { CATEGORY_OPTIONS, SCRAPE_CONFIG } from '@/lib/config';
+import { AnalysisParams, SavedSearch } from '@/lib/types';
+import { CATEGORY_OPTIONS, SCRAPE_CONFIG, TRAVEL_CONFIG } from '@/lib/config';
+import { centralDateString } from '@/lib/auctionTime';
+import { profileExclusionRules } from '@/lib/supabase';
+import SavedSearchPicker from './SavedSearchPicker';
+import ExclusionRulesEditor from './ExclusionRulesEditor';
+import { useAuth } from './AuthProvider';
 
 interface Props {
   onSubmit: (params: AnalysisParams) => void;
@@ -10,27 +15,43 @@ interface Props {
   buttonText?: string;
 }
 
-// Helper to get date string in YYYY-MM-DD format
-function getDateString(date: Date): string {
-  return date.toISOString().split('T')[0];
-}
-
 export default function ParameterForm({ onSubmit, isLoading, buttonText = 'Run Analysis' }: Props) {
-  const today = new Date();
-  const threeDaysLater = new Date(today.getTime() + 3 * 24 * 60 * 60 * 1000);
+  const { profile } = useAuth();
+  // Categories the user's exclusion rules leave open; the rest are never analyzed
+  const rules = profileExclusionRules(profile);
+  const categoryOptions: string[] = CATEGORY_OPTIONS.filter(category =>
+    (rules.categories_allowed.length === 0 || rules.categories_allowed.includes(category)) &&
+    !rules.excluded_categories.includes(category)
+  );
 
   const [params, setParams] = useState<AnalysisParams>({
     profit_min_dollars: 20,
     profit_min_percent: 30,
     selling_fee_percent: 13,
     max_items: SCRAPE_CONFIG.maxItems, // Hidden - uses config limit
-    start_date: getDateString(today),
-    end_date: getDateString(threeDaysLater),
+    start_date: centralDateString(),   // Dates are K-Bid (Central) days
+    end_date: centralDateString(3),
     single_auction_url: '',
-    selected_categories: [...CATEGORY_OPTIONS]
+    selected_categories: [...CATEGORY_OPTIONS],
+    include_lot_details: false,
+    travel_cost_per_mile: TRAVEL_CONFIG.costPerMile,
+    travel_time_value_per_hour: TRAVEL_CONFIG.timeValuePerHour
   });
 
   const [useSingleAuction, setUseSingleAuction] = useState(false);
+  const [useSavedSearch, setUseSavedSearch] = useState(false);
+  const [savedSearch, setSavedSearch] = useState<SavedSearch | null>(null);
+
+  // A saved search brings its own category filter (empty = all)
+  const handleSelectSavedSearch = (search: SavedSearch | null) => {
+    setSavedSearch(search);
+    if (search) {
+      setParams(p => ({
+        ...p,
+        selected_categories: search.categories.length > 0 ? [...search.categories] : [...CATEGORY_OPTIONS]
+      }));
+    }
+  };
 
   const handleCategoryToggle = (category: string) => {
     setParams(p => {
@@ -44,19 +65,24 @@ export default function ParameterForm({ onSubmit, isLoading, buttonText = 'Run A
   };
 
   const handleSelectAllCategories = () => {
-    setParams(p => ({ ...p, selected_categories: [...CATEGORY_OPTIONS] }));
+    setParams(p => ({ ...p, selected_categories: [...categoryOptions] }));
   };
 
   const handleClearCategories = () => {
     setParams(p => ({ ...p, selected_categories: [] }));
   };
 
+  const selectedCategories = (params.selected_categories || []).filter(category => categoryOptions.includes(category));
+  const cannotSubmit = isLoading || selectedCategories.length === 0 || (useSavedSearch && !savedSearch);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     // Clean up params before submitting
     const submitParams = {
       ...params,
-      single_auction_url: useSingleAuction ? params.single_auction_url : undefined
+      selected_categories: selectedCategories,
+      single_auction_url: useSingleAuction ? params.single_auction_url : undefined,
+      saved_search: useSavedSearch && savedSearch ? savedSearch : undefined
     };
     onSubmit(submitParams);
   };
@@ -71,7 +97,10 @@ export default function ParameterForm({ onSubmit, isLoading, buttonText = 'Run A
           <input
             type="checkbox"
             checked={useSingleAuction}
-            onChange={(e) => setUseSingleAuction(e.target.checked)}
+            onChange={(e) => {
+              setUseSingleAuction(e.target.checked);
+              if (e.target.checked) setUseSavedSearch(false);
+            }}
             className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
           />
           <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Scrape specific auction or search URL</span>
@@ -92,6 +121,51 @@ export default function ParameterForm({ onSubmit, isLoading, buttonText = 'Run A
         )}
       </div>
 
+      {/* Saved Search Toggle */}
+      <div className="mb-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={useSavedSearch}
+            onChange={(e) => {
+              setUseSavedSearch(e.target.checked);
+              if (e.target.checked) setUseSingleAuction(false);
+            }}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Run a saved search</span>
+        </label>
+        {useSavedSearch && (
+          <SavedSearchPicker
+            selected={savedSearch}
+            onSelect={handleSelectSavedSearch}
+            categories={params.selected_categories?.length === CATEGORY_OPTIONS.length ? [] : params.selected_categories || []}
+            scanSettings={{
+              profit_min_dollars: params.profit_min_dollars,
+              profit_min_percent: params.profit_min_percent,
+              selling_fee_percent: params.selling_fee_percent,
+              include_lot_details: params.include_lot_details
+            }}
+          />
+        )}
+      </div>
+
+      {/* Lot Detail Pages Toggle */}
+      <div className="mb-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={params.include_lot_details ?? false}
+            onChange={(e) => setParams(p => ({ ...p, include_lot_details: e.target.checked }))}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Fetch full lot details</span>
+        </label>
+        <p className="mt-1 ml-6 text-xs text-gray-500 dark:text-gray-400">
+          Reads each lot page for description, all photos, pickup and shipping terms. Slower scrape, better valuations.
+        </p>
+      </div>
+
       <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-2 sm:gap-4">
         <div>
           <label className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -129,7 +203,32 @@ export default function ParameterForm({ onSubmit, isLoading, buttonText = 'Run A
           />
         </div>
 
-        {!useSingleAuction && (
+        <div>
+          <label className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Travel ($/mi)
+          </label>
+          <input
+            type="number"
+            step="0.01"
+            value={params.travel_cost_per_mile}
+            onChange={(e) => setParams(p => ({ ...p, travel_cost_per_mile: Number(e.target.value) }))}
+            className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 text-sm"
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Drive Time ($/hr)
+          </label>
+          <input
+            type="number"
+            value={params.travel_time_value_per_hour}
+            onChange={(e) => setParams(p => ({ ...p, travel_time_value_per_hour: Number(e.target.value) }))}
+            className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 text-sm"
+          />
+        </div>
+
+        {!useSingleAuction && !useSavedSearch && (
           <>
             <div>
               <label className="block text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -183,7 +282,7 @@ export default function ParameterForm({ onSubmit, isLoading, buttonText = 'Run A
           </div>
         </div>
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-          {CATEGORY_OPTIONS.map((category) => (
+          {categoryOptions.map((category) => (
             <label key={category} className="flex items-center gap-2 cursor-pointer">
               <input
                 type="checkbox"
@@ -197,11 +296,13 @@ export default function ParameterForm({ onSubmit, isLoading, buttonText = 'Run A
         </div>
       </div>
 
+      <ExclusionRulesEditor />
+
       <button
         type="submit"
-        disabled={isLoading || (params.selected_categories?.length === 0)}
+        disabled={cannotSubmit}
         className={`mt-3 sm:mt-6 w-full py-2.5 sm:py-3 px-4 rounded-md font-medium text-white text-sm sm:text-base transition-colors
-          ${isLoading || (params.selected_categories?.length === 0)
+          ${cannotSubmit
             ? 'bg-gray-400 dark:bg-gray-600 cursor-not-allowed'
             : 'bg-blue-600 hover:bg-blue-700 active:bg-blue-800'
           }`}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { AnalyzedItem } from '@/lib/types';
+import { formatAuctionEnd, minutesUntil } from '@/lib/auctionTime';
 
 interface Props {
   data: AnalyzedItem;
@@ -15,6 +16,9 @@ export default function ResultCard({ data, onSave, isSaved = false }: Props) {
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(isSaved);
   const { item, valuation, profit, resale, meetsCriteria } = data;
+  // Lot's own close time (may be extended past the auction's), counted down live
+  const closesAt = item.closesAt || item.auctionEndDate;
+  const minutesLeft = minutesUntil(closesAt);
 
   const handleSave = async () => {
     if (!onSave || saving || saved) return;
@@ -94,10 +98,54 @@ export default function ResultCard({ data, onSave, isSaved = false }: Props) {
                 </span>
               )}
             </div>
+            {/* What exactly it is, and how many */}
+            {(item.brand || item.modelNumber || (item.quantity ?? 1) > 1) && (
+              <p className="text-xs text-gray-600 dark:text-gray-300 mt-0.5">
+                {[item.brand, item.modelNumber].filter(Boolean).join(' ')}
+                {(item.quantity ?? 1) > 1 && (
+                  <span className="ml-1 px-1 py-0.5 bg-blue-100 dark:bg-blue-900/40 rounded font-medium">
+                    LOT OF {item.quantity}
+                  </span>
+                )}
+              </p>
+            )}
+            {/* Problems found in the lot text or photos */}
+            {item.redFlags && item.redFlags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {item.redFlags.map(flag => (
+                  <span
+                    key={`${flag.kind}:${flag.label}`}
+                    className="px-1.5 py-0.5 bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300 rounded text-xs font-medium"
+                    title={flag.source === 'image' ? `Seen in photo: ${flag.evidence}` : flag.evidence}
+                  >
+                    {flag.source === 'image' ? '📷 ' : '⚠ '}{flag.label}
+                  </span>
+                ))}
+              </div>
+            )}
             {/* Closing time */}
-            {item.auctionEndDate && (
+            {closesAt && (
               <p className="text-xs text-orange-600 dark:text-orange-400 mt-0.5">
-                Closes: {item.auctionEndDate}
+                Closes: {formatAuctionEnd(closesAt)}
+                {minutesLeft !== undefined && minutesLeft >= 0 && minutesLeft < 60 && ` (${minutesLeft} min left)`}
+                {item.isExtended && (
+                  <span className="ml-1 px-1 py-0.5 bg-orange-100 dark:bg-orange-900/40 rounded font-medium">EXTENDED</span>
+                )}
+                {item.extensionRule && (
+                  <span
+                    className="ml-1 text-gray-500 dark:text-gray-400"
+                    title="Late bids push this lot's close back - the time above can move"
+                  >
+                    · soft close{item.extensionRule.extendMinutes ? ` +${item.extensionRule.extendMinutes}m` : ''}
+                  </span>
+                )}
+              </p>
+            )}
+            {/* Pickup location and distance */}
+            {item.pickupLocation?.city && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                📍 {item.pickupLocation.city}, {item.pickupLocation.state}
+                {item.distanceMiles !== undefined && ` · ${item.distanceMiles} mi`}
               </p>
             )}
           </div>
@@ -202,6 +250,20 @@ export default function ResultCard({ data, onSave, isSaved = false }: Props) {
           <div className="mb-2 sm:mb-3">
             <h4 className="font-medium text-gray-700 dark:text-gray-300 mb-1">Valuation</h4>
             <p className="text-gray-600 dark:text-gray-400">{valuation.reasoning}</p>
+            {valuation.unitValue !== undefined && valuation.quantity && (
+              <p className="text-gray-600 dark:text-gray-400 mt-1">
+                {valuation.quantity} × ${valuation.unitValue.toFixed(0)} each
+                {item.unitDescription && ` (${item.unitDescription})`}
+              </p>
+            )}
+            {valuation.outputSource === 'repaired' && (
+              <p className="text-gray-500 dark:text-gray-500 mt-1">AI valuation needed a corrected reply; double-check it.</p>
+            )}
+            {data.reusedValuationAt && (
+              <p className="text-gray-500 dark:text-gray-500 mt-1">
+                Valued {new Date(data.reusedValuationAt).toLocaleString()}; re-priced at the current bid
+              </p>
+            )}
           </div>
 
           <div className="mb-2 sm:mb-3">
@@ -209,7 +271,17 @@ export default function ResultCard({ data, onSave, isSaved = false }: Props) {
             <div className="text-gray-600 dark:text-gray-400 grid grid-cols-2 gap-1">
               <span>Shipping: ${profit.shippingEstimate}</span>
               <span>Fees (platform): ${profit.fees.toFixed(0)}</span>
-              <span className="col-span-2">Break-even: ${profit.breakEvenPrice.toFixed(0)}</span>
+              <span title="Buyer's premium, sales tax and lot fees at current bid">
+                Premium/tax: ${profit.acquisitionFees.toFixed(0)}
+                {item.auctionTerms && ` (${(item.auctionTerms.buyerPremiumRate * 100).toFixed(0)}% BP)`}
+              </span>
+              {profit.travelCost > 0 && (
+                <span title="Round trip to pickup, split across the lots you'd win from this auction">
+                  Travel: ${profit.amortizedTravelCost.toFixed(0)}
+                  {profit.amortizedTravelCost < profit.travelCost && ` of $${profit.travelCost.toFixed(0)} trip`}
+                </span>
+              )}
+              <span>Break-even: ${profit.breakEvenPrice.toFixed(0)}</span>
             </div>
           </div>
 
@@ -225,6 +297,11 @@ export default function ResultCard({ data, onSave, isSaved = false }: Props) {
                   </span>
                 )}
               </div>
+              {item.bidVelocity && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {item.bidVelocity.bidsLastHour} in the last hour · {item.bidVelocity.bidsLast24h} in the last 24h
+                </p>
+              )}
             </div>
           )}
 
@@ -233,6 +310,9 @@ export default function ResultCard({ data, onSave, isSaved = false }: Props) {
             <p className="text-gray-600 dark:text-gray-400">
               <strong>{resale.recommendedChannel}</strong> - {resale.riskReasoning}
             </p>
+            {resale.outputSource === 'fallback' && (
+              <p className="text-gray-500 dark:text-gray-500 mt-1">Generic advice: no AI resale advice was available for this item.</p>
+            )}
           </div>
 
           {resale.tips.length > 0 && (
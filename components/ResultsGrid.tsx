@@ -1,13 +1,20 @@
-import { AnalyzedItem } from '@/lib/types';
+import { AnalyzedItem, AnalysisStage } from '@/lib/types';
 import ResultCard from './ResultCard';
 
 interface Props {
   items: AnalyzedItem[];
   onSave?: (data: AnalyzedItem) => Promise<void>;
   savedUrls?: Set<string>;
+  stageCounts?: Partial<Record<AnalysisStage, number>>; // Set while results are still streaming in
 }
 
-export default function ResultsGrid({ items, onSave, savedUrls }: Props) {
+const STAGE_ORDER: AnalysisStage[] = ['extracting', 'valuing', 'pricing', 'advising'];
+
+export default function ResultsGrid({ items, onSave, savedUrls, stageCounts }: Props) {
+  const inProgress = stageCounts
+    ? STAGE_ORDER.filter(stage => stageCounts[stage]).map(stage => `${stageCounts[stage]} ${stage}`)
+    : [];
+
   if (items.length === 0) {
     return (
       <div className="text-center py-8 sm:py-12 text-gray-500 dark:text-gray-400 text-sm sm:text-base">
@@ -20,7 +27,13 @@ export default function ResultsGrid({ items, onSave, savedUrls }: Props) {
 
   return (
     <div>
-      {profitableCount === 0 && items.length > 0 && (
+      {stageCounts && (
+        <div className="mb-3 sm:mb-4 flex items-center gap-2 text-xs sm:text-sm text-blue-700 dark:text-blue-300">
+          <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-600 border-t-transparent"></div>
+          Still analyzing{inProgress.length > 0 ? `: ${inProgress.join(' · ')}` : '...'}
+        </div>
+      )}
+      {profitableCount === 0 && items.length > 0 && !stageCounts && (
         <div className="mb-3 sm:mb-4 p-2 sm:p-3 bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-800 rounded-lg text-xs sm:text-sm text-yellow-800 dark:text-yellow-300">
           No items meet your profit criteria. Showing all {items.length} analyzed items below (sorted by potential profit).
         </div>
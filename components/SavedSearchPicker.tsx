@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { SavedSearch } from '@/lib/types';
+import { SavedSearchRecord, getSavedSearches, saveSavedSearch, deleteSavedSearch } from '@/lib/supabase';
+import { useAuth } from './AuthProvider';
+
+interface Props {
+  selected: SavedSearch | null;
+  onSelect: (search: SavedSearch | null) => void;
+  categories: string[]; // Saved with the search: the form's current category selection
+  scanSettings: Pick<SavedSearch, 'profit_min_dollars' | 'profit_min_percent' | 'selling_fee_percent' | 'include_lot_details'>;
+}
+
+// "drill, impact driver" -> ['drill', 'impact driver']
+function toList(text: string): string[] {
+  return text.split(',').map(part => part.trim()).filter(Boolean);
+}
+
+const EMPTY_DRAFT = { name: '', keywords: '', exclude: '', maxPrice: '', windowDays: '7', scan: false };
+
+export default function SavedSearchPicker({ selected, onSelect, categories, scanSettings }: Props) {
+  const { user } = useAuth();
+  const [searches, setSearches] = useState<SavedSearchRecord[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    getSavedSearches(user.id).then(setSearches);
+  }, [user]);
+
+  const startEdit = (search: SavedSearch | null) => {
+    setDraft(search ? {
+      name: search.name,
+      keywords: search.keywords.join(', '),
+      exclude: search.exclude_keywords.join(', '),
+      maxPrice: search.max_price != null ? String(search.max_price) : '',
+      windowDays: String(search.window_days),
+      scan: search.scan_enabled ?? false
+    } : EMPTY_DRAFT);
+    setError(null);
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    const keywords = toList(draft.keywords);
+    if (!draft.name.trim() || keywords.length === 0) {
+      setError('Name and at least one keyword are required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveSavedSearch(user.id, {
+        id: editing && selected?.id ? selected.id : undefined,
+        name: draft.name.trim(),
+        keywords,
+        exclude_keywords: toList(draft.exclude),
+        categories,
+        max_price: draft.maxPrice ? Number(draft.maxPrice) : null,
+        window_days: Number(draft.windowDays) || 7,
+        scan_enabled: draft.scan,
+        ...scanSettings
+      });
+      setSearches(prev => [...prev.filter(s => s.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      onSelect(saved);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected?.id || !confirm(`Delete saved search "${selected.name}"?`)) return;
+    try {
+      await deleteSavedSearch(selected.id);
+      setSearches(prev => prev.filter(s => s.id !== selected.id));
+      onSelect(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete search');
+    }
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 text-sm';
+  const linkClass = 'text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300';
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={selected?.id || ''}
+          onChange={(e) => onSelect(searches.find(s => s.id === e.target.value) || null)}
+          className={inputClass}
+        >
+          <option value="">Choose a saved search...</option>
+          {searches.map(search => (
+            <option key={search.id} value={search.id}>{search.name}</option>
+          ))}
+        </select>
+        <button type="button" onClick={() => { onSelect(null); startEdit(null); }} className={linkClass}>New</button>
+        {selected && (
+          <>
+            <button type="button" onClick={() => startEdit(selected)} className={linkClass}>Edit</button>
+            <button type="button" onClick={handleDelete} className="text-xs text-red-600 dark:text-red-400 hover:text-red-800">Delete</button>
+          </>
+        )}
+      </div>
+
+      {selected && !editing && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {selected.keywords.join(', ')}
+          {selected.exclude_keywords.length > 0 && <> · excluding {selected.exclude_keywords.join(', ')}</>}
+          {selected.max_price != null && <> · up to ${selected.max_price}</>}
+          {' '}· closing within {selected.window_days} days
+          {selected.scan_enabled && <> · scanned automatically</>}
+        </p>
+      )}
+
+      {editing && (
+        <div className="p-3 border border-gray-200 dark:border-gray-700 rounded-md space-y-2">
+          <input type="text" placeholder="Name" value={draft.name}
+            onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))} className={inputClass} />
+          <input type="text" placeholder="Keywords, comma separated (e.g. dewalt drill, milwaukee m18)" value={draft.keywords}
+            onChange={(e) => setDraft(d => ({ ...d, keywords: e.target.value }))} className={inputClass} />
+          <input type="text" placeholder="Exclude words, comma separated (e.g. parts, broken)" value={draft.exclude}
+            onChange={(e) => setDraft(d => ({ ...d, exclude: e.target.value }))} className={inputClass} />
+          <div className="grid grid-cols-2 gap-2">
+            <input type="number" placeholder="Max current bid ($)" value={draft.maxPrice}
+              onChange={(e) => setDraft(d => ({ ...d, maxPrice: e.target.value }))} className={inputClass} />
+            <input type="number" min="1" placeholder="Closing within (days)" value={draft.windowDays}
+              onChange={(e) => setDraft(d => ({ ...d, windowDays: e.target.value }))} className={inputClass} />
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={draft.scan}
+              onChange={(e) => setDraft(d => ({ ...d, scan: e.target.checked }))}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500" />
+            <span className="text-sm text-gray-700 dark:text-gray-300">Scan automatically</span>
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Saves the categories selected below{draft.scan && ', plus the profit thresholds and lot detail setting for scheduled scans'}.
+          </p>
+          <div className="flex gap-2">
+            <button type="button" onClick={handleSave} disabled={saving}
+              className="px-3 py-1 rounded-md text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400">
+              {saving ? 'Saving...' : 'Save Search'}
+            </button>
+            <button type="button" onClick={() => setEditing(false)}
+              className="px-3 py-1 rounded-md text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
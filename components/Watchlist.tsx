@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { WatchlistItem } from '@/lib/supabase';
+import { formatAuctionEnd } from '@/lib/auctionTime';
 
 interface Props {
   onClose: () => void;
@@ -178,7 +179,7 @@ export default function Watchlist({ onClose }: Props) {
                             </div>
                             <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
                               {item.category} | {item.recommended_channel}
-                              {item.auction_end_date && ` | Ends: ${item.auction_end_date}`}
+                              {item.auction_end_date && ` | Ends: ${formatAuctionEnd(item.auction_end_date)}`}
                             </p>
                           </div>
                           <button
@@ -0,0 +1,46 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AnalysisStage, FailureReason, ItemFailure } from '@/lib/types';
+
+// An item-level analysis failure with a reason code the UI can group and retry by
+export class AnalysisError extends Error {
+  constructor(public readonly reason: FailureReason, message: string) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+// Map anything thrown while analyzing an item to an AnalysisError
+export function toAnalysisError(error: unknown, signal?: AbortSignal): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+
+  if (signal?.aborted || (error instanceof Error && error.name === 'AbortError') || error instanceof Anthropic.APIUserAbortError) {
+    return new AnalysisError('cancelled', 'Cancelled');
+  }
+  if (error instanceof Anthropic.RateLimitError) {
+    return new AnalysisError('anthropic_rate_limited', 'Anthropic rate limit reached (429)');
+  }
+  if (error instanceof Anthropic.APIError) {
+    return new AnalysisError('anthropic_error', `Anthropic API error: ${error.message}`);
+  }
+  if (error instanceof SyntaxError) {
+    return new AnalysisError('json_parse_failed', `Could not parse AI response: ${error.message}`);
+  }
+  return new AnalysisError('unknown', error instanceof Error ? error.message : 'Unknown error');
+}
+
+// Failure list entry for an item, named by its parsed title when it got that far
+export function itemFailure(
+  item: { title?: string; text?: string; url?: string; auctionUrl?: string },
+  stage: AnalysisStage,
+  error: AnalysisError,
+  position?: number
+): ItemFailure {
+  return {
+    position,
+    title: item.title || item.text?.substring(0, 80) || 'Unknown item',
+    url: item.auctionUrl || item.url || '',
+    stage,
+    reason: error.reason,
+    message: error.message
+  };
+}
@@ -0,0 +1,96 @@
+// K-Bid lists close times in US Central time. Parse them in that zone and
+// carry them as UTC ISO strings; only the UI formats them for display.
+
+export const KBID_TIME_ZONE = 'America/Chicago';
+
+interface ZonedParts {
+  year: number;
+  month: number; // 0-11
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Wall-clock parts of an instant in the given zone
+export function zonedParts(date: Date, timeZone = KBID_TIME_ZONE): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month') - 1,
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+// How far the zone's wall clock is ahead of UTC at this instant
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const wallAsUtc = Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second);
+  return wallAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant a wall-clock time in K-Bid's zone refers to (month is 0-11)
+export function centralTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0
+): Date {
+  const wallAsUtc = Date.UTC(year, month, day, hour, minute, second);
+  const offset = zoneOffsetMs(new Date(wallAsUtc), KBID_TIME_ZONE);
+  // Re-check across a DST change, where the first guess lands on the other offset
+  const corrected = zoneOffsetMs(new Date(wallAsUtc - offset), KBID_TIME_ZONE);
+  return new Date(wallAsUtc - corrected);
+}
+
+// Start or end of a YYYY-MM-DD day in K-Bid's zone
+export function centralDayBoundary(isoDate: string, end = false): Date {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return end
+    ? centralTimeToDate(year, month - 1, day, 23, 59, 59)
+    : centralTimeToDate(year, month - 1, day);
+}
+
+// Today's date in K-Bid's zone as YYYY-MM-DD, offset by whole days
+export function centralDateString(offsetDays = 0, from = new Date()): string {
+  const p = zonedParts(from);
+  const date = new Date(Date.UTC(p.year, p.month, p.day + offsetDays));
+  return date.toISOString().split('T')[0];
+}
+
+// Whole minutes from now until an ISO time (negative once it's passed)
+export function minutesUntil(value: string | undefined, now = new Date()): number | undefined {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : Math.floor((time - now.getTime()) / 60000);
+}
+
+// Display an ISO end time in the viewer's zone, e.g. "Mar 18, 6:00 PM CDT".
+// Values saved before end times were ISO are shown as-is.
+export function formatAuctionEnd(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime()) || !/^\d{4}-\d{2}-\d{2}T/.test(value)) return value;
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+}
@@ -0,0 +1,24 @@
+// Run worker over every input with at most `limit` calls in flight.
+// Results keep the input order.
+export async function mapWithConcurrency<T, R>(
+  inputs: T[],
+  limit: number,
+  worker: (input: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(inputs.length);
+  let index = 0;
+
+  async function next() {
+    while (index < inputs.length) {
+      const currentIndex = index++;
+      results[currentIndex] = await worker(inputs[currentIndex]);
+    }
+  }
+
+  const workers = Array(Math.min(Math.max(1, limit), inputs.length))
+    .fill(null)
+    .map(() => next());
+
+  await Promise.all(workers);
+  return results;
+}
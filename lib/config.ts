@@ -1,3 +1,5 @@
+import { AuctionTerms, ExclusionRules, RedFlagKind } from '@/lib/types';
+
 // Centralized configuration for scraping and analysis
 // Adjust these values based on your Vercel plan and API rate limits
 
@@ -12,6 +14,119 @@ export const SCRAPE_CONFIG = {
   fetchTimeout: 10000,     // Fetch timeout in ms (10 seconds)
   retryDelay: 1000,        // Delay between retries in ms
   concurrentWorkers: 3,    // Parallel workers for item processing
+  detailConcurrency: 4,    // Concurrent lot detail page fetches
+  maxIndexPages: 50,       // Safety cap on auction index pages walked
+};
+
+// Resumable analysis runs (/api/analysis-runs)
+export const ANALYSIS_RUN_CONFIG = {
+  timeBudget: 240 * 1000,    // Stop claiming items after this, leaving room under maxDuration
+  claimSize: 6,              // Items a worker leases at a time
+  leaseMs: 6 * 60 * 1000,    // Longer than maxDuration, so a lease outlives the request that took it
+  maxAttempts: 3,            // Errors before an item is marked failed
+};
+
+// Reusing recent analyses of the same lot (matched by auction URL)
+export const ANALYSIS_REUSE_CONFIG = {
+  // How long a lot's extraction and valuation stay usable; within it only the
+  // profit is recomputed with the new bid. 0 always analyzes from scratch.
+  freshnessHours: Number(process.env.ANALYSIS_REUSE_HOURS ?? 24),
+  lookupChunkSize: 50,       // URLs per query, keeps the request URL short
+};
+
+// Cached extractions (extraction_cache table), keyed by a hash of the lot's text and images
+export const EXTRACTION_CACHE_CONFIG = {
+  version: 4,                // Part of the key: bump when the extraction prompt or red-flag patterns change
+};
+
+// Red flags found in a lot (services/redFlags.ts). Each kind keeps a share of
+// the estimated value and sets a floor on the risk score; several kinds compound.
+export const RED_FLAG_CONFIG: {
+  kinds: Record<RedFlagKind, { valueFactor: number; minRisk: 'low' | 'medium' | 'high' }>;
+  minValueFactor: number;
+} = {
+  kinds: {
+    parts_only: { valueFactor: 0.3, minRisk: 'high' },     // "for parts", "not working"
+    untested: { valueFactor: 0.6, minRisk: 'medium' },
+    damaged: { valueFactor: 0.7, minRisk: 'medium' },
+    missing_parts: { valueFactor: 0.8, minRisk: 'medium' }, // "no charger", "missing remote"
+    as_is: { valueFactor: 0.9, minRisk: 'medium' },
+  },
+  minValueFactor: 0.2,       // Never discount below this share, however many flags
+};
+
+// Several lots per extraction prompt; whatever a shared prompt misses is extracted on its own
+export const EXTRACTION_BATCH_CONFIG = {
+  enabled: process.env.EXTRACTION_BATCH_MODE !== 'off',
+  textLotsPerPrompt: 10,     // Lots without photos
+  imageLotsPerPrompt: 3,     // Lots with photos
+  imagesPerLot: 1,           // Photos per lot in a shared prompt (a lot on its own gets up to 3)
+  concurrentPrompts: 2,
+};
+
+// Unattended scans (/api/cron/scan)
+export const SCAN_CONFIG = {
+  timeBudget: 240 * 1000,   // Cancel the scrape or batch in flight after this, leaving room under maxDuration
+  staleRunAfter: 15 * 60 * 1000, // A scan_runs row still 'running' after this was cut off; marked failed
+  maxItemsPerProfile: 100,  // Lots scraped per saved search per scan
+  batchSize: 10,            // Smaller than the interactive batch, so less is lost when the budget cancels one
+  // Used when a saved search has no analysis settings of its own
+  defaultProfitMinDollars: 20,
+  defaultProfitMinPercent: 30,
+  defaultSellingFeePercent: 13,
+};
+
+// Minimum share of lots that should come back with each field. A scrape
+// below any of these gets a warning in its health report.
+export const SCRAPE_HEALTH_THRESHOLDS = {
+  bid: 0.8,
+  title: 0.9,
+  image: 0.6,
+  endDate: 0.8,
+  maxGenericPathShare: 0.2, // Lots found only by the generic-link fallback
+};
+
+// Shared K-Bid HTTP client (services/kbidClient.ts)
+export const HTTP_CONFIG = {
+  userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  requestsPerSecond: 2,    // Sustained rate per host
+  burst: 4,                // Requests allowed back-to-back before throttling
+  maxRetries: 3,           // Retries on 429/502/503/504 and network errors
+  maxBackoff: 30000,       // Cap on a single backoff wait in ms
+  cacheTtl: 5 * 60 * 1000, // Serve cached pages without a request for 5 minutes
+  cacheMaxEntries: 500,    // Older pages are evicted past this
+};
+
+// Raw page archive (services/snapshotArchive.ts)
+// KBID_SNAPSHOT_MODE: 'off' (default), 'record' saves every fetched page,
+// 'replay' serves pages from the archive instead of the network
+export const SNAPSHOT_CONFIG = {
+  mode: (process.env.KBID_SNAPSHOT_MODE || 'off') as 'off' | 'record' | 'replay',
+  store: (process.env.KBID_SNAPSHOT_STORE || 'fs') as 'fs' | 'supabase',
+  dir: process.env.KBID_SNAPSHOT_DIR || '.snapshots/kbid',
+  // Replay the archive as it was at this time (ISO string); latest if unset
+  replayAt: process.env.KBID_SNAPSHOT_REPLAY_AT,
+};
+
+// Offline auction source (services/fixtureSource.ts), read from a JSON file
+// instead of a live site. Select it with source: 'fixture' or fixture:// URLs.
+export const FIXTURE_SOURCE_CONFIG = {
+  path: process.env.AUCTION_FIXTURE_PATH || 'fixtures/sources/sample-auctions.json',
+};
+
+// Fee terms used when an auction's terms can't be read
+// (K-Bid buyer's premium is typically 10%, some auctions 13%)
+export const DEFAULT_AUCTION_TERMS: AuctionTerms = {
+  buyerPremiumRate: 0.10,
+  salesTaxRate: 0,
+  lotFee: 0,
+};
+
+// Pickup trip costs (round trip from the user's territory center)
+export const TRAVEL_CONFIG = {
+  costPerMile: 0.67,       // IRS standard mileage rate
+  timeValuePerHour: 0,     // Off by default - set to count driving time
+  averageSpeedMph: 45,     // Used to turn miles into driving time
 };
 
 // Category options matching K-Bid's actual categories
@@ -29,50 +144,46 @@ export const CATEGORY_OPTIONS = [
 
 export type CategoryOption = typeof CATEGORY_OPTIONS[number];
 
+// Exclusions for an analysis without a user's own rules (and the starting
+// point for new users): categories that rarely resell online
+export const DEFAULT_EXCLUSION_RULES: ExclusionRules = {
+  categories_allowed: [],
+  excluded_categories: [
+    'Coins, Currency & Precious Metals',
+    'Commercial & Industrial',
+    'Farm Equipment',
+    'Heavy Equipment & Construction',
+    'Real Estate',
+    'Vehicles & Marine',
+  ],
+  excluded_keywords: [],
+  max_size_class: null,
+  shipping_required: false,
+};
+
+// Words that place a free-form category in a K-Bid filter category, checked
+// in order. Whole words only: "Personal Care" is not a car, "Clothing" not a
+// lot and "Household" not a house.
+const FILTER_CATEGORY_WORDS: [CategoryOption, RegExp][] = [
+  ['Coins, Currency & Precious Metals', /\b(?:coins?|currency|gold|silver|precious metals?|bullion|numismatics?)\b/],
+  // Technology (electronics, computers, phones, etc.)
+  ['Technology', /\b(?:electronics?|computers?|(?:smart|cell|head)?phones?|tvs?|audio|tech(?:nology)?|laptops?|tablets?|gaming)\b/],
+  ['Commercial & Industrial', /\b(?:commercial|industrial|restaurant|retail|business)\b/],
+  ['Farm Equipment', /\b(?:farm(?:ing)?|tractors?|agricultur(?:e|al)|livestock|irrigation)\b/],
+  ['Heavy Equipment & Construction', /\b(?:heavy equipment|construction|excavators?|bulldozers?|loaders?|cranes?|forklifts?)\b/],
+  ['Vehicles & Marine', /\b(?:vehicles?|cars?|trucks?|trailers?|motorcycles?|boats?|marine|atvs?|rvs?|campers?)\b/],
+  ['Real Estate', /\b(?:real estate|property|properties|land|acreage|houses?|vacant lots?)\b/],
+  ['Sporting Goods & Hobbies', /\b(?:sports?|sporting|golf|fishing|bikes?|exercise|outdoors?|hobby|hobbies|crafts?|collectibles?|antiques?|art|memorabilia|toys?|games?)\b/]
+];
+
 // Map AI-extracted categories to K-Bid filter categories
 export function mapToFilterCategory(aiCategory: string): CategoryOption {
-  const lower = aiCategory.toLowerCase();
-
-  // Coins, Currency & Precious Metals
-  if (lower.includes('coin') || lower.includes('currency') || lower.includes('gold') || lower.includes('silver') || lower.includes('precious') || lower.includes('bullion') || lower.includes('numismatic')) {
-    return 'Coins, Currency & Precious Metals';
-  }
+  const lower = aiCategory.trim().toLowerCase();
 
-  // Technology (electronics, computers, phones, etc.)
-  if (lower.includes('electronic') || lower.includes('computer') || lower.includes('phone') || lower.includes('tv') || lower.includes('audio') || lower.includes('tech') || lower.includes('laptop') || lower.includes('tablet') || lower.includes('gaming')) {
-    return 'Technology';
-  }
-
-  // Commercial & Industrial
-  if (lower.includes('commercial') || lower.includes('industrial') || lower.includes('office') || lower.includes('restaurant') || lower.includes('retail') || lower.includes('business')) {
-    return 'Commercial & Industrial';
-  }
-
-  // Farm Equipment
-  if (lower.includes('farm') || lower.includes('tractor') || lower.includes('agricultural') || lower.includes('livestock') || lower.includes('irrigation')) {
-    return 'Farm Equipment';
-  }
-
-  // Heavy Equipment & Construction
-  if (lower.includes('heavy equipment') || lower.includes('construction') || lower.includes('excavator') || lower.includes('bulldozer') || lower.includes('loader') || lower.includes('crane') || lower.includes('forklift')) {
-    return 'Heavy Equipment & Construction';
-  }
-
-  // Vehicles & Marine
-  if (lower.includes('vehicle') || lower.includes('car') || lower.includes('truck') || lower.includes('trailer') || lower.includes('motorcycle') || lower.includes('boat') || lower.includes('marine') || lower.includes('atv') || lower.includes('rv') || lower.includes('camper')) {
-    return 'Vehicles & Marine';
-  }
-
-  // Real Estate
-  if (lower.includes('real estate') || lower.includes('property') || lower.includes('land') || lower.includes('building') || lower.includes('house') || lower.includes('lot')) {
-    return 'Real Estate';
-  }
-
-  // Sporting Goods & Hobbies
-  if (lower.includes('sport') || lower.includes('golf') || lower.includes('fishing') || lower.includes('bike') || lower.includes('exercise') || lower.includes('outdoor') || lower.includes('hobby') || lower.includes('craft') || lower.includes('collectible') || lower.includes('antique') || lower.includes('art') || lower.includes('memorabilia') || lower.includes('toy') || lower.includes('game')) {
-    return 'Sporting Goods & Hobbies';
-  }
+  const exact = CATEGORY_OPTIONS.find(option => option.toLowerCase() === lower);
+  if (exact) return exact;
 
+  const match = FILTER_CATEGORY_WORDS.find(([, words]) => words.test(lower));
   // Household & Estate (default for furniture, appliances, general items)
-  return 'Household & Estate';
+  return match ? match[0] : 'Household & Estate';
 }
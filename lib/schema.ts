@@ -0,0 +1,115 @@
+// Small runtime schemas for JSON returned by the model. parse() returns the
+// typed value or throws a SchemaError naming the field that's wrong, which is
+// what gets fed back to the model when asking it to repair a reply.
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function fail(path: string, expected: string, value: unknown): never {
+  const got = value === undefined ? 'nothing' : JSON.stringify(value).substring(0, 60);
+  throw new SchemaError(`${path || 'response'}: expected ${expected}, got ${got}`);
+}
+
+export function unknownValue(): Schema<unknown> {
+  return { parse: value => value };
+}
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'string') fail(path, 'a string', value);
+      const trimmed = value.trim();
+      if (options.nonEmpty && !trimmed) fail(path, 'a non-empty string', value);
+      return trimmed;
+    }
+  };
+}
+
+export function number(options: { min?: number; max?: number } = {}): Schema<number> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'a number', value);
+      if (options.min !== undefined && value < options.min) fail(path, `a number >= ${options.min}`, value);
+      if (options.max !== undefined && value > options.max) fail(path, `a number <= ${options.max}`, value);
+      return value;
+    }
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'boolean') fail(path, 'true or false', value);
+      return value;
+    }
+  };
+}
+
+// One of a fixed set of strings, ignoring case and surrounding space
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    parse(value, path = '') {
+      const match = typeof value === 'string'
+        ? values.find(option => option === value.trim().toLowerCase())
+        : undefined;
+      if (!match) fail(path, `one of ${values.map(option => `"${option}"`).join(', ')}`, value);
+      return match;
+    }
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    parse(value, path = '') {
+      if (!Array.isArray(value)) fail(path, 'an array', value);
+      if (options.min !== undefined && value.length < options.min) fail(path, `at least ${options.min} entries`, value.length);
+      if (options.max !== undefined && value.length > options.max) fail(path, `at most ${options.max} entries`, value.length);
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+    }
+  };
+}
+
+// Fields not in the shape are dropped
+export function object<S extends Record<string, Schema<unknown>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(path, 'an object', value);
+      const record = value as Record<string, unknown>;
+      const result = {} as { [K in keyof S]: Infer<S[K]> };
+      for (const key of Object.keys(shape) as (keyof S & string)[]) {
+        result[key] = shape[key].parse(record[key], path ? `${path}.${key}` : key) as Infer<S[typeof key]>;
+      }
+      return result;
+    }
+  };
+}
+
+// Missing (or null) is allowed and becomes `fallback`
+export function optional<T>(schema: Schema<T>, fallback: T): Schema<T>;
+export function optional<T>(schema: Schema<T>): Schema<T | undefined>;
+export function optional<T>(schema: Schema<T>, fallback?: T): Schema<T | undefined> {
+  return {
+    parse: (value, path) => value === undefined || value === null ? fallback : schema.parse(value, path)
+  };
+}
+
+// An extra check across fields, e.g. that a range is in order
+export function refine<T>(schema: Schema<T>, check: (value: T) => boolean, message: string): Schema<T> {
+  return {
+    parse(value, path = '') {
+      const parsed = schema.parse(value, path);
+      if (!check(parsed)) throw new SchemaError(`${path || 'response'}: ${message}`);
+      return parsed;
+    }
+  };
+}
@@ -0,0 +1,33 @@
+import { createClient } from '@supabase/supabase-js';
+import { supabase, UserProfile } from './supabase';
+
+function bearerToken(request: Request): string | null {
+  return request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? null;
+}
+
+// The profile of the user behind an API request, from the Supabase access
+// token the browser sends (see authHeaders). The profile is read as that
+// user, so RLS applies. Null without a valid token or for a deactivated account.
+export async function getRequestProfile(request: Request): Promise<UserProfile | null> {
+  const token = bearerToken(request);
+  if (!token) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  const userClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: `Bearer ${token}` } }
+  });
+  const { data: profile, error: profileError } = await userClient
+    .from('users')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle();
+  if (profileError) {
+    console.error('Error fetching request profile:', profileError);
+    return null;
+  }
+
+  return profile?.is_active ? profile : null;
+}
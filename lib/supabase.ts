@@ -1,4 +1,10 @@
 import { createClient } from '@supabase/supabase-js';
+import type {
+  AnalysisRunItemStatus, AnalysisRunStatus, AnalysisSettings, AnalysisStage, AnalyzedItem, ExtractedFields, FailureReason,
+  ExclusionRules, OutputSource, ParsedItem, RawKBidItem, RedFlag, SavedSearch, ScanRunStatus, ValuationResult
+} from './types';
+
+import { DEFAULT_EXCLUSION_RULES } from './config';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -21,6 +27,11 @@ export interface UserProfile {
   license_expires_at?: string;
   categories_allowed: string[];
   max_items_per_search: number;
+  // Exclusion rules (see ExclusionRules)
+  excluded_categories: string[];
+  excluded_keywords: string[];
+  max_size_class?: ParsedItem['sizeClass'] | null;
+  shipping_required: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -38,6 +49,10 @@ export interface UserProfileUpdate {
   license_expires_at?: string;
   categories_allowed?: string[];
   max_items_per_search?: number;
+  excluded_categories?: string[];
+  excluded_keywords?: string[];
+  max_size_class?: ParsedItem['sizeClass'] | null;
+  shipping_required?: boolean;
 }
 
 // Auth helper functions
@@ -46,6 +61,13 @@ export async function getCurrentUser() {
   return user;
 }
 
+// Headers that identify the signed-in user to API routes that act for them
+// (see getRequestProfile)
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
 export async function getUserProfile(userId: string): Promise<UserProfile | null> {
   const { data, error } = await supabase
     .from('users')
@@ -150,7 +172,120 @@ export async function deleteUser(userId: string) {
   if (error) throw error;
 }
 
+// A profile's exclusion rules. The server applies the signed-in user's to each
+// analysis; without a profile (or for one from before the rules existed) the
+// defaults apply.
+export function profileExclusionRules(
+  profile: Pick<UserProfile, 'categories_allowed' | 'excluded_categories' | 'excluded_keywords' | 'max_size_class' | 'shipping_required'> | null
+): ExclusionRules {
+  if (!profile) return DEFAULT_EXCLUSION_RULES;
+  return {
+    categories_allowed: profile.categories_allowed ?? [],
+    excluded_categories: profile.excluded_categories ?? DEFAULT_EXCLUSION_RULES.excluded_categories,
+    excluded_keywords: profile.excluded_keywords ?? [],
+    max_size_class: profile.max_size_class ?? null,
+    shipping_required: profile.shipping_required ?? false
+  };
+}
+
+// Saved searches - read and written from the browser so RLS scopes them to the signed-in user
+export async function getSavedSearches(userId: string): Promise<SavedSearchRecord[]> {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching saved searches:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function saveSavedSearch(userId: string, search: SavedSearch): Promise<SavedSearchRecord> {
+  const { id, ...fields } = search;
+  const query = id
+    ? supabase.from('saved_searches').update(fields).eq('id', id)
+    : supabase.from('saved_searches').insert({ ...fields, user_id: userId });
+
+  const { data, error } = await query.select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteSavedSearch(id: string) {
+  const { error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
 // Database types
+export interface SavedSearchRecord extends SavedSearch {
+  id: string;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+  last_scanned_at?: string;
+}
+
+// Scan Runs - one row per saved search processed by a scheduled scan
+export interface ScanRunRecord {
+  id: string;
+  saved_search_id: string;
+  user_id: string;
+  started_at: string;
+  finished_at?: string;
+  status: ScanRunStatus;
+  items_scraped: number;
+  items_analyzed: number;
+  items_profitable: number;
+  error?: string;
+}
+
+// Analysis Runs - resumable analysis jobs, one row per submitted item in analysis_run_items
+export interface AnalysisRunRecord {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  user_id?: string | null;     // Owner; null for runs from before owners were recorded
+  status: AnalysisRunStatus;
+  params: AnalysisSettings;
+  total_items: number;
+  completed_at?: string;
+}
+
+export interface AnalysisRunItemRecord {
+  id: string;
+  run_id: string;
+  position: number;
+  updated_at: string;
+  status: AnalysisRunItemStatus;
+  raw_item: RawKBidItem;
+  parsed_item?: ParsedItem;
+  valuation?: ValuationResult;
+  result?: AnalyzedItem;  // Missing when the item was skipped
+  skip_reason?: string;
+  attempts: number;
+  error?: string | null;
+  failure_reason?: FailureReason | null;
+  failed_stage?: AnalysisStage | null;  // Stage the item failed in; a retry resumes there
+  locked_until?: string | null;
+  logged_at?: string;     // When the result was written to analyzed_auctions
+}
+
+// Extraction cache (extraction_cache table). The bid is kept as read, but a
+// hit always takes the freshly scraped one: it changes without the lot changing.
+export interface ExtractionCacheRecord {
+  id: string;
+  created_at: string;
+  content_hash: string;
+  fields: ExtractedFields;
+}
+
 export interface WatchlistItem {
   id: string;
   created_at: string;
@@ -163,7 +298,7 @@ export interface WatchlistItem {
   size_class: string;
   auction_url: string;
   image_url?: string;
-  auction_end_date?: string;
+  auction_end_date?: string; // ISO timestamp
   // Pricing at time of save
   saved_bid: number;
   current_bid: number;
@@ -199,7 +334,7 @@ export interface WatchlistInsert {
   size_class: string;
   auction_url: string;
   image_url?: string;
-  auction_end_date?: string;
+  auction_end_date?: string; // ISO timestamp
   saved_bid: number;
   current_bid: number;
   max_bid: number;
@@ -222,6 +357,31 @@ export interface WatchlistInsert {
   selling_fee_percent: number;
 }
 
+// Auction Terms - buyer's premium, sales tax and lot fees per K-Bid auction
+export interface AuctionTermsRecord {
+  auction_id: string;
+  auction_url: string;
+  buyer_premium_rate: number;
+  sales_tax_rate: number;
+  lot_fee: number;
+  updated_at: string;
+}
+
+// Scrape health - one row per scrape (see services/scrapeHealth.ts)
+export interface ScrapeHealthRecord {
+  id: string;
+  created_at: string;
+  source: string;
+  total_lots: number;
+  auctions_skipped: number;
+  bid_ratio: number;
+  title_ratio: number;
+  image_ratio: number;
+  end_date_ratio: number;
+  extraction_paths: Record<string, number>;
+  warnings: string[];
+}
+
 // Analyzed Auctions - logs all analyzed items for market intelligence
 export interface AnalyzedAuction {
   id: string;
@@ -233,7 +393,7 @@ export interface AnalyzedAuction {
   size_class?: string;
   auction_url: string;
   image_url?: string;
-  auction_end_date?: string;
+  auction_end_date?: string; // ISO timestamp
   bid_count: number;
   bidder_count: number;
   interest_level?: string;
@@ -260,6 +420,22 @@ export interface AnalyzedAuction {
   valuation_reasoning?: string;
   valuation_low?: number;
   valuation_high?: number;
+  buyer_premium_rate?: number;
+  sales_tax_rate?: number;
+  lot_fee?: number;
+  shipping_available?: boolean;
+  valuation_sources?: string[];
+  resale_tips?: string[];
+  valued_at?: string;        // When the extraction and valuation were made; earlier than created_at if reused
+  extraction_source?: OutputSource;
+  valuation_source?: OutputSource;
+  advice_source?: OutputSource;
+  brand?: string;
+  model_number?: string;
+  upc?: string;
+  quantity?: number;
+  unit_description?: string;
+  red_flags?: RedFlag[];
 }
 
 export interface AnalyzedAuctionInsert {
@@ -270,7 +446,7 @@ export interface AnalyzedAuctionInsert {
   size_class?: string;
   auction_url: string;
   image_url?: string;
-  auction_end_date?: string;
+  auction_end_date?: string; // ISO timestamp
   bid_count?: number;
   bidder_count?: number;
   interest_level?: string;
@@ -297,6 +473,41 @@ export interface AnalyzedAuctionInsert {
   valuation_reasoning?: string;
   valuation_low?: number;
   valuation_high?: number;
+  buyer_premium_rate?: number;
+  sales_tax_rate?: number;
+  lot_fee?: number;
+  shipping_available?: boolean;
+  valuation_sources?: string[];
+  resale_tips?: string[];
+  valued_at?: string;        // When the extraction and valuation were made; earlier than created_at if reused
+  extraction_source?: OutputSource;
+  valuation_source?: OutputSource;
+  advice_source?: OutputSource;
+  brand?: string;
+  model_number?: string;
+  upc?: string;
+  quantity?: number;
+  unit_description?: string;
+  red_flags?: RedFlag[];
+}
+
+// Bid History - individual bids read from a lot page, per analyzed_auctions row
+export interface BidHistoryRecord {
+  id: string;
+  created_at: string;
+  analyzed_auction_id: string;
+  auction_url: string;
+  amount: number;
+  placed_at: string; // ISO timestamp
+  bidder?: string;
+}
+
+export interface BidHistoryInsert {
+  analyzed_auction_id: string;
+  auction_url: string;
+  amount: number;
+  placed_at: string;
+  bidder?: string;
 }
 
 // Market Insights - AI-generated insights
@@ -310,6 +521,7 @@ export interface MarketInsight {
   severity: 'info' | 'warning' | 'opportunity' | 'critical';
   data_points?: Record<string, unknown>;
   confidence?: number;
+  source?: OutputSource;     // NULL for insights stored before this was recorded
   is_active: boolean;
   expires_at?: string;
 }
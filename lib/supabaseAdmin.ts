@@ -0,0 +1,17 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// Service-role client for server code that works across users or on tables
+// closed to the anon key. It bypasses RLS, so only import it from server code.
+let adminClient: SupabaseClient | null = null;
+
+export function getSupabaseAdmin(): SupabaseClient | null {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+
+  if (!adminClient) {
+    adminClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+      auth: { persistSession: false }
+    });
+  }
+  return adminClient;
+}
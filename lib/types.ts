@@ -7,16 +7,175 @@ export interface AnalysisParams {
   end_date: string;   // ISO date string (YYYY-MM-DD)
   single_auction_url?: string; // Optional: scrape a specific auction by URL
   selected_categories?: string[]; // Optional: filter by these categories
+  include_lot_details?: boolean; // Optional: fetch each lot's detail page
+  travel_cost_per_mile?: number;  // Optional: driving cost, defaults to TRAVEL_CONFIG
+  travel_time_value_per_hour?: number; // Optional: value of the user's time on the road
+  saved_search?: SavedSearch; // Optional: run a saved keyword search instead of the index
+}
+
+// A named keyword search run across all open auctions (saved_searches table)
+export interface SavedSearch {
+  id?: string;
+  name: string;
+  keywords: string[];          // Each is searched separately and the results merged
+  exclude_keywords: string[];  // Lots whose title or text mentions any of these are dropped
+  categories: string[];        // Category filter for analysis; empty means all
+  max_price?: number | null;   // Drop lots already bid past this
+  window_days: number;         // Only lots closing within this many days
+  // Scheduled scans (/api/cron/scan) run the search unattended with these settings
+  scan_enabled?: boolean;
+  profit_min_dollars?: number;
+  profit_min_percent?: number;
+  selling_fee_percent?: number;
+  include_lot_details?: boolean;
+}
+
+export type ScanRunStatus =
+  | 'running'
+  | 'completed'  // Every scraped lot was analyzed
+  | 'partial'    // Ran out of time; the rest waits for the next scan
+  | 'failed';
+
+// Fee terms for a single K-Bid auction
+export interface AuctionTerms {
+  buyerPremiumRate: number; // e.g. 0.13 for a 13% buyer's premium
+  salesTaxRate: number;     // Applied to bid + buyer's premium
+  lotFee: number;           // Flat per-lot fees (lot, handling, internet)
+}
+
+// Soft-close: a bid inside the last windowMinutes pushes the lot's close
+// back by extendMinutes. Either may be missing if the page only says "soft close".
+export interface ExtensionRule {
+  extendMinutes?: number;
+  windowMinutes?: number;
+}
+
+// Where an auction's lots are picked up
+export interface PickupLocation {
+  city?: string;
+  state?: string;
+  zip?: string;
+}
+
+// One bid from a lot's bid history
+export interface BidHistoryEntry {
+  amount: number;
+  placedAt: string;  // ISO timestamp
+  bidder?: string;   // Anonymized handle, e.g. "Bidder 4471", when shown
+}
+
+// How fast bids are coming in on a lot, from its bid history
+export interface BidVelocity {
+  totalBids: number;
+  uniqueBidders: number;
+  bidsLastHour: number;
+  bidsLast24h: number;
+  bidsPerHour: number;    // Over the span from first to last bid
+  lastBidAt?: string;
+}
+
+// A user's buying territory (center point + radius)
+export interface Territory {
+  zip?: string;
+  lat?: number;
+  lng?: number;
+  radiusMiles: number;
+}
+
+// One auction on a source's index
+export interface AuctionListing {
+  url: string;
+  title: string;
+  endsAt: string | null;  // ISO timestamp; null when the listing didn't say
+  pickup?: PickupLocation;
+}
+
+// Live state of a single lot, read when refreshing bids
+export interface LotStatus {
+  currentBid: number | null;
+  isClosed: boolean;
+  closesAt: string | null;  // Lot's current close time, moved by soft-close extensions
+  isExtended: boolean;
+}
+
+// Which parser path found a lot: K-Bid /auction/{id}/lot/{n} links, or the
+// generic /lot/, /item/, ?lot= fallback (a sign the page layout changed)
+export type LotExtractionPath = 'lot_links' | 'generic_links';
+
+// Why an auction from the index wasn't scraped
+export type AuctionSkipReason =
+  | 'closed'             // Already closed when the index was read
+  | 'outside_date_range' // Closes outside the requested window
+  | 'outside_territory'  // Pickup is beyond the user's radius
+  | 'item_limit'         // max_items was reached before its turn
+  | 'fetch_failed'       // Auction page couldn't be fetched
+  | 'no_open_lots';      // Page had no open lots
+
+export interface SkippedAuction {
+  url: string;
+  title: string;
+  reason: AuctionSkipReason;
+  detail?: string;
+}
+
+// Field coverage of one scrape, used to spot parser drift
+export interface ScrapeHealthReport {
+  createdAt: string;
+  source: string;            // '<source id>:index' or the auction/search URL scraped
+  totalLots: number;
+  auctionsSkipped: number;
+  // Fraction of lots (0-1) that came back with each field
+  ratios: {
+    bid: number;
+    title: number;
+    image: number;
+    endDate: number;
+  };
+  extractionPaths: Partial<Record<LotExtractionPath, number>>;
+  warnings: string[];
 }
 
 export interface RawKBidItem {
   text: string;
   url: string;
   imageUrl?: string;
-  auctionEndDate?: string;
+  auctionEndDate?: string; // ISO timestamp (UTC), parsed from K-Bid's Central time
+  closesAt?: string;       // This lot's own close (ISO), which can differ from the auction's
+  isExtended?: boolean;    // Lot's close was pushed back by late bids
+  extensionRule?: ExtensionRule;
   currentBid?: number; // Pre-extracted bid price from scraper
   bidCount?: number;   // Number of bids placed
   bidderCount?: number; // Number of unique bidders
+  auctionId?: string;
+  auctionTerms?: AuctionTerms; // Buyer premium/tax/fees of the lot's auction
+  pickupLocation?: PickupLocation;
+  distanceMiles?: number; // From the user's territory center, when known
+  title?: string;         // Title as read from the lot card, if one was found
+  extractionPath?: LotExtractionPath;
+  // Lot detail page fields (only when the detail pass ran)
+  lotNumber?: string;
+  lotDescription?: string;
+  imageUrls?: string[];
+  pickupAddress?: string;
+  pickupWindow?: string;
+  shippingPolicy?: string;
+  seller?: string;
+  bidHistory?: BidHistoryEntry[]; // Newest first
+}
+
+// Where an AI-produced result came from: the model's first reply, its reply
+// after being told what was wrong with the first, or a default used instead
+export type OutputSource = 'model' | 'repaired' | 'fallback';
+
+// Something about a lot that makes it worth less or riskier to flip, e.g.
+// "untested" or "no charger" in its text, or a crack seen in a photo
+export type RedFlagKind = 'parts_only' | 'untested' | 'damaged' | 'missing_parts' | 'as_is';
+
+export interface RedFlag {
+  kind: RedFlagKind;
+  label: string;              // Short badge text, e.g. "no charger"
+  source: 'text' | 'image';   // Lot text/description, or what the model saw in a photo
+  evidence: string;           // The phrase or observation it came from
 }
 
 export interface ParsedItem {
@@ -27,24 +186,62 @@ export interface ParsedItem {
   category: string;
   condition: string;
   sizeClass: 'small' | 'medium' | 'large' | 'oversized';
+  brand?: string;
+  modelNumber?: string;      // Model or part number, as printed
+  upc?: string;              // Only when visible in the text or photos
+  quantity?: number;         // Units in the lot (missing means 1)
+  unitDescription?: string;  // What one unit is, e.g. "DeWalt DCD771 20V drill"
+  redFlags?: RedFlag[];
   auctionUrl: string;
   imageUrl?: string;
   shippingAvailable: boolean;
   excluded: boolean;
   excludeReason?: string;
-  auctionEndDate?: string;
+  auctionEndDate?: string; // ISO timestamp
+  closesAt?: string;       // Lot's own close (ISO), falls back to auctionEndDate
+  isExtended?: boolean;
+  minutesRemaining?: number; // Until closesAt, as of extraction
+  extensionRule?: ExtensionRule;
   bidCount?: number;
   bidderCount?: number;
   interestLevel?: 'low' | 'medium' | 'high';
+  bidHistory?: BidHistoryEntry[];
+  bidVelocity?: BidVelocity;
+  auctionId?: string;
+  auctionTerms?: AuctionTerms;
+  pickupLocation?: PickupLocation;
+  distanceMiles?: number;
+  // Carried over from the lot detail page
+  lotNumber?: string;
+  lotDescription?: string;
+  imageUrls?: string[];
+  pickupAddress?: string;
+  pickupWindow?: string;
+  shippingPolicy?: string;
+  seller?: string;
+  extractionCached?: boolean; // Fields came from the extraction cache instead of a Claude call
+  extractionSource?: OutputSource;
 }
 
+// What the model reads from a lot; everything else in ParsedItem is carried over from the scrape
+export type ExtractedFields = Pick<ParsedItem,
+  'title' | 'description' | 'currentBid' | 'category' | 'condition' | 'sizeClass' |
+  'brand' | 'modelNumber' | 'upc' | 'quantity' | 'unitDescription' | 'redFlags' |
+  'shippingAvailable' | 'excluded' | 'excludeReason' | 'extractionSource'>;
+
+// Values are for the whole lot: the per-unit estimate times the quantity,
+// less any red-flag discount
 export interface ValuationResult {
   estimatedValue: number;
   lowEstimate: number;
   highEstimate: number;
+  unitValue?: number;        // Estimated value of one unit, when the lot has several
+  quantity?: number;
+  redFlagFactor?: number;    // Share of the value kept after red-flag discounts, when there were any
   confidence: 'low' | 'medium' | 'high';
   sources: string[];
   reasoning: string;
+  outputSource?: OutputSource;
 }
 
 export interface ProfitAnalysis {
@@ -56,6 +253,9 @@ export interface ProfitAnalysis {
   breakEvenPrice: number;
   shippingEstimate: number;
   fees: number;
+  acquisitionFees: number;     // Buyer's premium, sales tax and lot fees at current bid
+  travelCost: number;          // Full round trip to the auction's pickup location
+  amortizedTravelCost: number; // This lot's share of the trip
 }
 
 export interface ResaleAdvice {
@@ -64,6 +264,7 @@ export interface ResaleAdvice {
   riskReasoning: string;
   tips: string[];
   quickTake?: string;
+  outputSource?: OutputSource;
 }
 
 export interface AnalyzedItem {
@@ -72,6 +273,26 @@ export interface AnalyzedItem {
   profit: ProfitAnalysis;
   resale: ResaleAdvice;
   meetsCriteria: boolean;
+  reusedValuationAt?: string; // Set when the extraction and valuation came from an earlier analysis made then (ISO)
+}
+
+// Why an item couldn't be analyzed
+export type FailureReason =
+  | 'image_fetch_failed'
+  | 'json_parse_failed'       // The model's reply wasn't the JSON we asked for
+  | 'serper_error'
+  | 'anthropic_rate_limited'  // Anthropic returned 429
+  | 'anthropic_error'
+  | 'cancelled'
+  | 'unknown';
+
+export interface ItemFailure {
+  position?: number;  // Place in the analysis run, for run items
+  title: string;      // Raw lot title when extraction never finished
+  url: string;
+  stage: AnalysisStage;
+  reason: FailureReason;
+  message: string;
 }
 
 export interface AnalysisResponse {
@@ -82,6 +303,62 @@ export interface AnalysisResponse {
     totalAnalyzed: number;
     totalProfitable: number;
     errors: number;
+    extractionCache?: { hits: number; misses: number };  // Extractions read from the cache vs. sent to Claude
   };
+  failures?: ItemFailure[];  // One per item counted in summary.errors
   error?: string;
 }
+
+// Lots a user never wants analyzed, from their profile. The same rules go
+// into the extraction prompt and are checked again on what comes back.
+export interface ExclusionRules {
+  categories_allowed: string[];   // Categories the user may analyze at all; empty = all
+  excluded_categories: string[];  // Category filter names (CATEGORY_OPTIONS)
+  excluded_keywords: string[];    // Whole words, matched in the lot's title and description
+  max_size_class?: ParsedItem['sizeClass'] | null;
+  shipping_required?: boolean;    // Skip lots that are pickup only
+}
+
+// Thresholds and costs a batch of lots is priced with
+export interface AnalysisSettings {
+  profit_min_dollars: number;
+  profit_min_percent: number;
+  selling_fee_percent: number;
+  selected_categories?: string[]; // Optional category filter
+  travel_cost_per_mile?: number;
+  travel_time_value_per_hour?: number;
+  exclusion_rules?: ExclusionRules; // Defaults to DEFAULT_EXCLUSION_RULES
+}
+
+// Resumable analysis jobs (analysis_runs / analysis_run_items)
+export type AnalysisRunStatus = 'running' | 'completed';
+
+export type AnalysisRunItemStatus =
+  | 'pending'    // Waiting for AI extraction
+  | 'extracted'  // Parsed, waiting for valuation
+  | 'valued'     // Valued, waiting for profit and resale advice
+  | 'done'       // Analyzed, or skipped as excluded / outside the selected categories
+  | 'failed';    // Gave up after repeated errors
+
+export type AnalysisRunProgress = Record<AnalysisRunItemStatus, number> & { total: number };
+
+export interface AnalysisRunResponse extends AnalysisResponse {
+  runId: string;
+  status: AnalysisRunStatus;
+  settings: AnalysisSettings;
+  progress: AnalysisRunProgress;
+  rawItems?: RawKBidItem[];  // Submitted items in order, when the run is fetched to resume it
+}
+
+// Stages an item goes through while a run is worked on
+export type AnalysisStage = 'extracting' | 'valuing' | 'pricing' | 'advising';
+
+// Server-sent events from /api/analysis-runs/[id]/stream. `position` is the
+// item's place in the run; `item` results are final once `done` arrives.
+export type AnalysisStreamEvent =
+  | { type: 'stage'; position: number; stage: AnalysisStage }
+  | { type: 'item'; position: number; item: AnalyzedItem }
+  | { type: 'skipped'; position: number; reason: string }
+  | { type: 'failed'; position: number; failure: ItemFailure; willRetry: boolean }
+  | { type: 'done'; run: AnalysisRunResponse }
+  | { type: 'error'; error: string };
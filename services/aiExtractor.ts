@@ -1,15 +1,29 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { RawKBidItem, ParsedItem } from '@/lib/types';
-
-const anthropic = new Anthropic();
-
-// Fetch image and convert to base64
-async function fetchImageAsBase64(url: string): Promise<{ data: string; mediaType: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' } | null> {
+import { createHash } from 'crypto';
+import { ExclusionRules, ExtractedFields, OutputSource, RawKBidItem, ParsedItem } from '@/lib/types';
+import * as schema from '@/lib/schema';
+import { minutesUntil } from '@/lib/auctionTime';
+import { AnalysisError, toAnalysisError } from '@/lib/analysisErrors';
+import { calculateBidVelocity, velocityInterestLevel } from './bidHistory';
+import { getCachedExtraction, getCachedExtractions, saveCachedExtraction } from './extractionCache';
+import { DEFAULT_EXCLUSION_RULES, EXTRACTION_BATCH_CONFIG, EXTRACTION_CACHE_CONFIG } from '@/lib/config';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { requestStructured } from './structuredOutput';
+import { detectRedFlags } from './redFlags';
+import { exclusionPromptRules } from './exclusionRules';
+
+// Fetch image and convert to base64. A missing image (4xx) is skipped; a
+// timeout, network error or server error fails the item so it can be retried.
+async function fetchImageAsBase64(url: string, signal?: AbortSignal): Promise<{ data: string; mediaType: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' } | null> {
   try {
+    const timeout = AbortSignal.timeout(5000); // 5 second timeout
     const response = await fetch(url, {
       headers: { 'User-Agent': 'Mozilla/5.0' },
-      signal: AbortSignal.timeout(5000) // 5 second timeout
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
     });
+    if (response.status >= 500) {
+      throw new Error(`HTTP ${response.status}`);
+    }
     if (!response.ok) return null;
 
     const contentType = response.headers.get('content-type') || 'image/jpeg';
@@ -24,24 +38,17 @@ async function fetchImageAsBase64(url: string): Promise<{ data: string; mediaTyp
 
     return { data: base64, mediaType };
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('Failed to fetch image:', url, error);
-    return null;
+    throw new AnalysisError('image_fetch_failed', `Image fetch failed: ${url}`);
   }
 }
 
-// Categories to exclude from analysis
-const EXCLUDED_CATEGORIES = [
-  'coins',
-  'currency',
-  'precious metals',
-  'commercial',
-  'industrial',
-  'farm equipment',
-  'heavy equipment',
-  'construction'
-];
+// Max photos sent to the model per item (detail pages can have dozens)
+const MAX_IMAGES_PER_ITEM = 3;
 
-// Calculate interest level based on bid activity
+// Calculate interest level based on bid activity. Used when the lot page's
+// bid history wasn't fetched; otherwise velocityInterestLevel is the better signal.
 function calculateInterestLevel(bidCount?: number, bidderCount?: number): 'low' | 'medium' | 'high' {
   const bids = bidCount || 0;
   const bidders = bidderCount || 0;
@@ -61,150 +68,443 @@ function calculateInterestLevel(bidCount?: number, bidderCount?: number): 'low'
   return 'low';
 }
 
-export async function extractItemDetails(rawItems: RawKBidItem[]): Promise<ParsedItem[]> {
-  const results: ParsedItem[] = [];
-
-  // Process in batches of 5 to avoid rate limits
-  const batchSize = 5;
+// Combine what the model read from a lot with the scraped fields carried over as-is
+export function buildParsedItem(item: RawKBidItem, fields: ExtractedFields, id: string): ParsedItem {
+  const closesAt = item.closesAt || item.auctionEndDate;
+  const bidVelocity = item.bidHistory
+    ? calculateBidVelocity(item.bidHistory, closesAt)
+    : undefined;
+
+  return {
+    id,
+    ...fields,
+    auctionUrl: item.url,
+    imageUrl: item.imageUrl,
+    auctionEndDate: item.auctionEndDate,
+    closesAt,
+    isExtended: item.isExtended,
+    minutesRemaining: minutesUntil(closesAt),
+    extensionRule: item.extensionRule,
+    bidCount: item.bidCount,
+    bidderCount: item.bidderCount,
+    interestLevel: bidVelocity
+      ? velocityInterestLevel(bidVelocity)
+      : calculateInterestLevel(item.bidCount, item.bidderCount),
+    bidHistory: item.bidHistory,
+    bidVelocity,
+    auctionId: item.auctionId,
+    auctionTerms: item.auctionTerms,
+    pickupLocation: item.pickupLocation,
+    distanceMiles: item.distanceMiles,
+    lotNumber: item.lotNumber,
+    lotDescription: item.lotDescription,
+    imageUrls: item.imageUrls,
+    pickupAddress: item.pickupAddress,
+    pickupWindow: item.pickupWindow,
+    shippingPolicy: item.shippingPolicy,
+    seller: item.seller
+  };
+}
 
-  for (let i = 0; i < rawItems.length; i += batchSize) {
-    const batch = rawItems.slice(i, i + batchSize);
+function lotImageUrls(item: RawKBidItem): string[] {
+  return (item.imageUrls && item.imageUrls.length > 0 ? item.imageUrls : [item.imageUrl])
+    .filter((url): url is string => !!url)
+    .slice(0, MAX_IMAGES_PER_ITEM);
+}
 
-    const batchPromises = batch.map(async (item, index) => {
-      try {
-        // Build message content - include image if available
-        const messageContent: Anthropic.MessageCreateParams['messages'][0]['content'] = [];
-
-        // Add image if available (fetch and convert to base64)
-        let hasImage = false;
-        if (item.imageUrl) {
-          const imageData = await fetchImageAsBase64(item.imageUrl);
-          if (imageData) {
-            messageContent.push({
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: imageData.mediaType,
-                data: imageData.data
-              }
-            });
-            hasImage = true;
-          }
+type ImageBlock = Anthropic.ImageBlockParam;
+
+// Fetch a lot's photos as message content
+async function imageBlocks(urls: string[], signal?: AbortSignal): Promise<ImageBlock[]> {
+  const blocks: ImageBlock[] = [];
+  for (const imageUrl of urls) {
+    const imageData = await fetchImageAsBase64(imageUrl, signal);
+    if (imageData) {
+      blocks.push({
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: imageData.mediaType,
+          data: imageData.data
         }
+      });
+    }
+  }
+  return blocks;
+}
 
-        // Add text prompt
-        const prompt = `Analyze this K-Bid auction item and extract details as JSON.
-${hasImage ? '\nIMAGE: An image of the item is provided above. Use it to assess condition, verify the item matches the description, and note any visible details (e.g., if electronics are powered on, signs of wear, missing parts, etc.).' : ''}
-
-RAW TEXT:
-${item.text}
-
-URL: ${item.url}
+// Lot detail page fields, when the detail pass ran
+function lotDetailsText(item: RawKBidItem): string {
+  return [
+    item.lotNumber && `LOT NUMBER: ${item.lotNumber}`,
+    item.lotDescription && `DESCRIPTION:\n${item.lotDescription}`,
+    item.shippingPolicy && `SHIPPING POLICY: ${item.shippingPolicy}`,
+    item.pickupAddress && `PICKUP: ${item.pickupAddress}${item.pickupWindow ? ` (${item.pickupWindow})` : ''}`,
+    item.seller && `SELLER: ${item.seller}`
+  ].filter(Boolean).join('\n\n');
+}
 
-Return ONLY valid JSON (no markdown, no explanation) in this exact format:
-{
+const EXTRACTED_FIELDS_FORMAT = `{
   "title": "concise item title",
   "description": "brief description based on text AND image observations",
   "currentBid": 0,
   "category": "category name",
   "condition": "new/like-new/good/fair/poor/unknown",
   "sizeClass": "small/medium/large/oversized",
+  "brand": "manufacturer or null",
+  "modelNumber": "model or part number or null",
+  "upc": "UPC/EAN barcode number or null",
+  "quantity": 1,
+  "unitDescription": "what one unit is",
+  "imageRedFlags": ["problem seen in the image"],
   "shippingAvailable": true,
   "excluded": false,
   "excludeReason": null
-}
+}`;
 
-Rules:
+// The user's exclusion rules decide what the model is asked to exclude
+function extractionRules(rules: ExclusionRules): string {
+  return `Rules:
 - condition: Base this on the IMAGE if available. If you can see the item is working (e.g., lights are on, display is active), note that. Look for wear, damage, rust, missing parts, etc.
 - currentBid: Extract the dollar amount if visible, otherwise use 0
 - sizeClass: small (<5lbs, fits in shoebox), medium (5-30lbs), large (30-70lbs), oversized (>70lbs or furniture)
-- shippingAvailable: Set true if text mentions "shipping available", "will ship", "shipping offered", or similar. Set false if "pickup only", "local pickup", "no shipping", or if item is too large to ship reasonably.
-- excluded: Set true for:
-  * Vehicles, real estate, firearms, ammunition
-  * Coins, currency, precious metals (gold, silver, bullion)
-  * Commercial & industrial equipment
-  * Farm equipment, tractors, agricultural machinery
-  * Heavy equipment, construction equipment
-  * Items impossible to resell online
-- excludeReason: If excluded, explain why
+- brand, modelNumber, upc: Only as written in the text or legible in the IMAGE; use null rather than guessing. modelNumber is the manufacturer's model or part number (e.g. "DCD771C2"), not the lot number
+- quantity: Number of identical units in the lot (e.g. "Lot of 6 drills" is 6, "pair of speakers" is 2, "set of 4 chairs" is 4). Use 1 for a single item, or for a set/kit that sells as one unit
+- unitDescription: One unit, specific enough to price on its own (brand, model, size), e.g. "DeWalt DCD771 20V cordless drill"
+- imageRedFlags: Problems you can SEE in the IMAGE that hurt resale, each a short phrase (e.g. "cracked screen", "missing knobs", "heavy rust"). Use [] if there is no image or nothing wrong is visible
+- shippingAvailable: Set true if text or SHIPPING POLICY mentions "shipping available", "will ship", "shipping offered", or similar. Set false if "pickup only", "local pickup", "no shipping", or if item is too large to ship reasonably.
+${exclusionPromptRules(rules)}
 
 Extract the current bid price from patterns like "$XX", "Current Bid: $XX", etc.`;
+}
 
-        messageContent.push({ type: 'text', text: prompt });
+const CONDITIONS = ['new', 'like-new', 'good', 'fair', 'poor', 'unknown'] as const;
+const SIZE_CLASSES = ['small', 'medium', 'large', 'oversized'] as const;
+
+// What the model must return for a lot (see EXTRACTED_FIELDS_FORMAT)
+const lotShape = {
+  title: schema.string({ nonEmpty: true }),
+  description: schema.optional(schema.string(), ''),
+  currentBid: schema.optional(schema.number({ min: 0 }), 0),
+  category: schema.string({ nonEmpty: true }),
+  condition: schema.oneOf(CONDITIONS),
+  sizeClass: schema.oneOf(SIZE_CLASSES),
+  brand: schema.optional(schema.string()),
+  modelNumber: schema.optional(schema.string()),
+  upc: schema.optional(schema.string()),
+  quantity: schema.optional(schema.refine(schema.number({ min: 1 }), value => Number.isInteger(value), 'expected quantity to be a whole number'), 1),
+  unitDescription: schema.optional(schema.string()),
+  imageRedFlags: schema.optional(schema.array(schema.string()), []),
+  shippingAvailable: schema.optional(schema.boolean(), false),
+  excluded: schema.boolean(),
+  excludeReason: schema.optional(schema.string())
+};
+const lotSchema = schema.object(lotShape);
+const batchedLotSchema = schema.object({ lotId: schema.string({ nonEmpty: true }), ...lotShape });
+
+type ModelLot = schema.Infer<typeof lotSchema>;
+
+// Apply our own bid check to what the model returned. The exclusion rules are
+// checked again after extraction (see ineligibleReason), cached or not.
+function toExtractedFields(item: RawKBidItem, parsed: ModelLot, source: OutputSource): ExtractedFields {
+  // Use pre-extracted bid from scraper if AI couldn't parse it
+  let currentBid = parsed.currentBid;
+  if (currentBid === 0 && item.currentBid && item.currentBid > 0) {
+    currentBid = item.currentBid;
+  }
 
-        const response = await anthropic.messages.create({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 1024,
-          messages: [{
-            role: 'user',
-            content: messageContent
-          }]
-        });
+  return {
+    title: parsed.title,
+    description: parsed.description,
+    currentBid,
+    category: parsed.category,
+    condition: parsed.condition,
+    sizeClass: parsed.sizeClass,
+    brand: parsed.brand || undefined,
+    modelNumber: parsed.modelNumber || undefined,
+    upc: parsed.upc || undefined,
+    quantity: parsed.quantity,
+    unitDescription: parsed.unitDescription || undefined,
+    redFlags: detectRedFlags(item, parsed.imageRedFlags),
+    shippingAvailable: parsed.shippingAvailable,
+    excluded: parsed.excluded,
+    excludeReason: parsed.excluded ? parsed.excludeReason || undefined : undefined,
+    extractionSource: source
+  };
+}
 
-        const content = response.content[0];
-        if (content.type !== 'text') {
-          throw new Error('Unexpected response type');
-        }
+// Ask the model what the lot is
+async function readLot(item: RawKBidItem, rules: ExclusionRules, signal?: AbortSignal): Promise<ExtractedFields> {
+  // Build message content - include images if available
+  const messageContent: Anthropic.MessageCreateParams['messages'][0]['content'] = [];
+  const images = await imageBlocks(lotImageUrls(item), signal);
+  messageContent.push(...images);
+  const imageCount = images.length;
+  const hasImage = imageCount > 0;
+  const lotDetails = lotDetailsText(item);
 
-        // Clean the response - remove any markdown formatting
-        let jsonStr = content.text.trim();
-        if (jsonStr.startsWith('```')) {
-          jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '');
-        }
+  // Add text prompt
+  const prompt = `Analyze this K-Bid auction item and extract details as JSON.
+${hasImage ? `\nIMAGE: ${imageCount > 1 ? `${imageCount} images of the item are` : 'An image of the item is'} provided above. Use ${imageCount > 1 ? 'them' : 'it'} to assess condition, verify the item matches the description, and note any visible details (e.g., if electronics are powered on, signs of wear, missing parts, etc.).` : ''}
 
-        const parsed = JSON.parse(jsonStr);
+RAW TEXT:
+${item.text}
+${lotDetails ? `\n${lotDetails}\n` : ''}
+URL: ${item.url}
 
-        // Double-check category exclusion
-        const category = (parsed.category || '').toLowerCase();
-        const title = (parsed.title || '').toLowerCase();
-        const isExcludedCategory = EXCLUDED_CATEGORIES.some(exc =>
-          category.includes(exc) || title.includes(exc)
-        );
+Return ONLY valid JSON (no markdown, no explanation) in this exact format:
+${EXTRACTED_FIELDS_FORMAT}
 
-        if (isExcludedCategory && !parsed.excluded) {
-          parsed.excluded = true;
-          parsed.excludeReason = 'Excluded category';
-        }
+${extractionRules(rules)}`;
 
-        // Use pre-extracted bid from scraper if AI couldn't parse it
-        let currentBid = typeof parsed.currentBid === 'number' ? parsed.currentBid : 0;
-        if (currentBid === 0 && item.currentBid && item.currentBid > 0) {
-          currentBid = item.currentBid;
-        }
+  messageContent.push({ type: 'text', text: prompt });
 
-        return {
-          id: `item-${i + index}-${Date.now()}`,
-          title: parsed.title || 'Unknown Item',
-          description: parsed.description || '',
-          currentBid,
-          category: parsed.category || 'Uncategorized',
-          condition: parsed.condition || 'unknown',
-          sizeClass: parsed.sizeClass || 'medium',
-          auctionUrl: item.url,
-          imageUrl: item.imageUrl,
-          shippingAvailable: parsed.shippingAvailable ?? false,
-          excluded: parsed.excluded || false,
-          excludeReason: parsed.excludeReason || undefined,
-          auctionEndDate: item.auctionEndDate,
-          bidCount: item.bidCount,
-          bidderCount: item.bidderCount,
-          interestLevel: calculateInterestLevel(item.bidCount, item.bidderCount)
-        } as ParsedItem;
+  const { value, source } = await requestStructured(lotSchema, messageContent, { label: 'extraction', signal });
+  return toExtractedFields(item, value, source);
+}
+
+// Ask the model about several lots in one prompt. Returns the fields of each
+// lot it answered for properly, keyed by the lot's index in `items`; anything
+// missing or malformed is left for the per-item path.
+async function readLots(items: RawKBidItem[], rules: ExclusionRules, signal?: AbortSignal): Promise<Map<number, ExtractedFields>> {
+  const messageContent: Anthropic.MessageCreateParams['messages'][0]['content'] = [];
+  const sent: number[] = [];
+
+  for (const [index, item] of items.entries()) {
+    // A lot whose photo won't load goes the per-item way, which reports the failure
+    let images: ImageBlock[];
+    try {
+      images = await imageBlocks(lotImageUrls(item).slice(0, EXTRACTION_BATCH_CONFIG.imagesPerLot), signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      continue;
+    }
 
+    const lotDetails = lotDetailsText(item);
+    messageContent.push({ type: 'text', text: `LOT L${index + 1}:` }, ...images, {
+      type: 'text',
+      text: `${images.length > 0 ? 'IMAGE: shown above.\n' : ''}RAW TEXT:\n${item.text}\n${lotDetails ? `\n${lotDetails}\n` : ''}URL: ${item.url}`
+    });
+    sent.push(index);
+  }
+
+  const fields = new Map<number, ExtractedFields>();
+  if (sent.length === 0) return fields;
+
+  messageContent.push({
+    type: 'text',
+    text: `Analyze each K-Bid auction lot above and extract its details. Where a lot has an image, use it to assess condition, verify the item matches the description, and note any visible details.
+
+Return ONLY a valid JSON array (no markdown, no explanation) with one object per lot, each in this exact format plus a "lotId" field holding the lot's label (e.g. "L1"):
+${EXTRACTED_FIELDS_FORMAT}
+
+${extractionRules(rules)}`
+  });
+
+  // No repair round here: a lot that comes back wrong is simply extracted on its own
+  const { value: entries } = await requestStructured(schema.array(schema.unknownValue()), messageContent, {
+    label: 'batched extraction',
+    maxTokens: Math.max(1024, 350 * sent.length),
+    signal,
+    repair: false
+  });
+
+  for (const entry of entries) {
+    let lot: schema.Infer<typeof batchedLotSchema>;
+    try {
+      lot = batchedLotSchema.parse(entry);
+    } catch {
+      continue;
+    }
+    const match = /^L(\d+)$/.exec(lot.lotId);
+    const index = match ? Number(match[1]) - 1 : -1;
+    if (!sent.includes(index) || fields.has(index)) continue;
+    fields.set(index, toExtractedFields(items[index], lot, 'model'));
+  }
+  return fields;
+}
+
+function normalizeLotText(text?: string): string {
+  return (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Everything the extraction is read from except the bid, which changes
+// without the lot changing. Any other edit to the lot, or different exclusion
+// rules in the prompt, is a new key.
+function extractionCacheKey(item: RawKBidItem, rules: ExclusionRules): string {
+  const content = [
+    `v${EXTRACTION_CACHE_CONFIG.version}`,
+    exclusionPromptRules(rules),
+    normalizeLotText(item.text.replace(/current\s*bid[:\s]*\$?[\d,]+(?:\.\d{2})?/gi, '')),
+    ...lotImageUrls(item),
+    normalizeLotText(item.lotNumber),
+    normalizeLotText(item.lotDescription),
+    normalizeLotText(item.shippingPolicy),
+    normalizeLotText(item.pickupAddress),
+    normalizeLotText(item.pickupWindow),
+    normalizeLotText(item.seller)
+  ];
+  return createHash('sha256').update(content.join('\n')).digest('hex');
+}
+
+// Lots being read right now, so one that turns up twice in a batch is only sent once
+const inFlight = new Map<string, Promise<ExtractedFields>>();
+
+// Extract one lot, from the cache if it hasn't changed since it was last read.
+// Throws an AnalysisError saying why it couldn't be parsed.
+export async function extractItem(
+  item: RawKBidItem,
+  index: number,
+  signal?: AbortSignal,
+  rules: ExclusionRules = DEFAULT_EXCLUSION_RULES
+): Promise<ParsedItem> {
+  const id = `item-${index}-${Date.now()}`;
+  try {
+    // The bid isn't cached, so a lot without a scraped bid is always read
+    if (item.currentBid === undefined) {
+      return { ...buildParsedItem(item, await readLot(item, rules, signal), id), extractionCached: false };
+    }
+    const currentBid = item.currentBid;
+    const key = extractionCacheKey(item, rules);
+
+    const cached = await (inFlight.get(key) || getCachedExtraction(key));
+    if (cached) {
+      return { ...buildParsedItem(item, { ...cached, currentBid }, id), extractionCached: true };
+    }
+
+    const reading = readLot(item, rules, signal);
+    inFlight.set(key, reading);
+    let fields: ExtractedFields;
+    try {
+      fields = await reading;
+    } finally {
+      inFlight.delete(key);
+    }
+
+    await saveCachedExtraction(key, fields);
+    return { ...buildParsedItem(item, fields, id), extractionCached: false };
+  } catch (error) {
+    throw toAnalysisError(error, signal);
+  }
+}
+
+// Cache hits and misses among extracted lots
+export function extractionCacheStats(items: ParsedItem[]): { hits: number; misses: number } {
+  return {
+    hits: items.filter(item => item.extractionCached === true).length,
+    misses: items.filter(item => item.extractionCached === false).length
+  };
+}
+
+// Extract as many lots as possible with a few prompts that each cover several:
+// cache hits first, then text-only lots in larger groups and lots with photos in
+// small ones. Returns what was extracted, keyed by index in `items`; the rest
+// (a failed prompt, a lot the reply skipped or garbled) is for extractItem.
+export async function extractLots(
+  items: RawKBidItem[],
+  signal?: AbortSignal,
+  rules: ExclusionRules = DEFAULT_EXCLUSION_RULES
+): Promise<Map<number, ParsedItem>> {
+  const extracted = new Map<number, ParsedItem>();
+  if (!EXTRACTION_BATCH_CONFIG.enabled) return extracted;
+
+  const now = Date.now();
+  const toParsed = (index: number, fields: ExtractedFields, cached: boolean): ParsedItem =>
+    ({ ...buildParsedItem(items[index], fields, `item-${index}-${now}`), extractionCached: cached });
+
+  // The bid isn't cached, so a lot without a scraped bid is always read
+  const keys = new Map<number, string>();
+  items.forEach((item, index) => {
+    if (item.currentBid !== undefined) keys.set(index, extractionCacheKey(item, rules));
+  });
+  const cached = await getCachedExtractions([...new Set(keys.values())]);
+
+  const textLots: number[] = [];
+  const imageLots: number[] = [];
+  items.forEach((item, index) => {
+    const hit = keys.has(index) ? cached.get(keys.get(index)!) : undefined;
+    if (hit) {
+      extracted.set(index, toParsed(index, { ...hit, currentBid: item.currentBid! }, true));
+    } else if (lotImageUrls(item).length > 0) {
+      imageLots.push(index);
+    } else {
+      textLots.push(index);
+    }
+  });
+
+  const groups: number[][] = [];
+  for (let i = 0; i < textLots.length; i += EXTRACTION_BATCH_CONFIG.textLotsPerPrompt) {
+    groups.push(textLots.slice(i, i + EXTRACTION_BATCH_CONFIG.textLotsPerPrompt));
+  }
+  for (let i = 0; i < imageLots.length; i += EXTRACTION_BATCH_CONFIG.imageLotsPerPrompt) {
+    groups.push(imageLots.slice(i, i + EXTRACTION_BATCH_CONFIG.imageLotsPerPrompt));
+  }
+  // A single lot gains nothing from the shared prompt
+  const shared = groups.filter(group => group.length > 1);
+
+  await mapWithConcurrency(shared, EXTRACTION_BATCH_CONFIG.concurrentPrompts, async group => {
+    if (signal?.aborted) return;
+    try {
+      const fields = await readLots(group.map(index => items[index]), rules, signal);
+      for (const [groupIndex, lotFields] of fields) {
+        const index = group[groupIndex];
+        extracted.set(index, toParsed(index, lotFields, false));
+        const key = keys.get(index);
+        if (key) await saveCachedExtraction(key, lotFields);
+      }
+      if (fields.size < group.length) {
+        console.log(`Batched extraction answered ${fields.size} of ${group.length} lots; the rest go one at a time`);
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error('Batched extraction failed, falling back to one lot at a time:', toAnalysisError(error).message);
+    }
+  });
+
+  signal?.throwIfAborted();
+  return extracted;
+}
+
+export async function extractItemDetails(
+  rawItems: RawKBidItem[],
+  options: {
+    signal?: AbortSignal;
+    rules?: ExclusionRules;
+    onFailure?: (item: RawKBidItem, error: AnalysisError) => void;  // Items that fail are left out of the result
+  } = {}
+): Promise<ParsedItem[]> {
+  const extracted = await extractLots(rawItems, options.signal, options.rules);
+  const remaining = rawItems
+    .map((item, index) => ({ item, index }))
+    .filter(({ index }) => !extracted.has(index));
+  if (extracted.size > 0) {
+    console.log(`Extracted ${extracted.size} items in batched prompts, ${remaining.length} left for one at a time`);
+  }
+
+  // Process in batches of 5 to avoid rate limits
+  const batchSize = 5;
+
+  for (let i = 0; i < remaining.length; i += batchSize) {
+    options.signal?.throwIfAborted();
+    const batch = remaining.slice(i, i + batchSize);
+
+    const batchPromises = batch.map(async ({ item, index }) => {
+      try {
+        extracted.set(index, await extractItem(item, index, options.signal, options.rules));
       } catch (error) {
-        console.error('Failed to parse item:', error);
-        return null;
+        const failure = toAnalysisError(error, options.signal);
+        console.error('Failed to parse item:', failure.message);
+        options.onFailure?.(item, failure);
       }
     });
 
-    const batchResults = await Promise.all(batchPromises);
-    results.push(...batchResults.filter((item): item is ParsedItem => item !== null));
+    await Promise.all(batchPromises);
 
     // Small delay between batches to avoid rate limiting
-    if (i + batchSize < rawItems.length) {
+    if (i + batchSize < remaining.length) {
       await new Promise(resolve => setTimeout(resolve, 500));
     }
   }
 
-  return results;
+  return [...extracted.entries()].sort(([a], [b]) => a - b).map(([, item]) => item);
 }
@@ -0,0 +1,109 @@
+import { supabase, AnalyzedAuction } from '@/lib/supabase';
+import { ANALYSIS_REUSE_CONFIG } from '@/lib/config';
+import { ParsedItem, RawKBidItem, ResaleAdvice, ValuationResult } from '@/lib/types';
+import { buildParsedItem } from '@/services/aiExtractor';
+import { redFlagValueFactor } from '@/services/redFlags';
+
+// A lot scanned again within the freshness window keeps the extraction,
+// valuation and resale advice logged to analyzed_auctions last time; only the
+// profit is recomputed with its new bid. Saves the Claude and Serper calls.
+
+export interface RecentAnalysis {
+  item: ParsedItem;          // Stored extraction plus the lot's freshly scraped bid, close time and terms
+  valuation: ValuationResult;
+  resale: ResaleAdvice;
+  valuedAt: string;
+}
+
+const LEVELS = ['low', 'medium', 'high'] as const;
+const SIZE_CLASSES = ['small', 'medium', 'large', 'oversized'] as const;
+
+function oneOf<T extends string>(value: string | undefined, options: readonly T[], fallback: T): T {
+  return options.find(option => option === value) || fallback;
+}
+
+// The latest usable analysis of each lot, keyed by auction URL. Lots without a
+// scraped bid aren't looked up: their bid has to come from extraction.
+export async function findRecentAnalyses(rawItems: RawKBidItem[]): Promise<Map<string, AnalyzedAuction>> {
+  const recent = new Map<string, AnalyzedAuction>();
+  const hours = ANALYSIS_REUSE_CONFIG.freshnessHours;
+  if (!(hours > 0)) return recent;
+
+  const urls = [...new Set(rawItems.filter(item => item.currentBid !== undefined).map(item => item.url))];
+  const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+  for (let i = 0; i < urls.length; i += ANALYSIS_REUSE_CONFIG.lookupChunkSize) {
+    // Rows logged before valued_at existed count from when they were logged
+    const { data, error } = await supabase
+      .from('analyzed_auctions')
+      .select('*')
+      .in('auction_url', urls.slice(i, i + ANALYSIS_REUSE_CONFIG.lookupChunkSize))
+      .gte('created_at', cutoff)
+      .or(`valued_at.is.null,valued_at.gte."${cutoff}"`)
+      .gt('estimated_value', 0)
+      .order('created_at', { ascending: false });
+
+    // Reuse only saves money; without it every lot is simply analyzed again
+    if (error) {
+      console.error('Failed to look up recent analyses:', error);
+      return recent;
+    }
+
+    for (const record of (data || []) as AnalyzedAuction[]) {
+      if (!recent.has(record.auction_url)) recent.set(record.auction_url, record);
+    }
+  }
+
+  if (recent.size > 0) console.log(`Reusing recent analyses for ${recent.size} lots`);
+  return recent;
+}
+
+// The stored analysis of `rawItem` carried forward to its current bid, if one was found
+export function reuseAnalysis(rawItem: RawKBidItem, recent: Map<string, AnalyzedAuction>): RecentAnalysis | undefined {
+  const record = recent.get(rawItem.url);
+  if (!record || rawItem.currentBid === undefined) return undefined;
+
+  const estimatedValue = Number(record.estimated_value);
+  // The stored value is already discounted; only the factor is worked out again
+  const redFlagFactor = redFlagValueFactor(record.red_flags || []);
+  const item = buildParsedItem(rawItem, {
+    title: record.title,
+    description: record.description || '',
+    currentBid: rawItem.currentBid,
+    category: record.category,
+    condition: record.condition || 'unknown',
+    sizeClass: oneOf(record.size_class, SIZE_CLASSES, 'medium'),
+    brand: record.brand,
+    modelNumber: record.model_number,
+    upc: record.upc,
+    quantity: record.quantity,
+    unitDescription: record.unit_description,
+    redFlags: record.red_flags || undefined,
+    shippingAvailable: record.shipping_available ?? false,
+    excluded: false,
+    extractionSource: record.extraction_source
+  }, `item-${record.id}`);
+
+  return {
+    item,
+    valuation: {
+      estimatedValue,
+      lowEstimate: Number(record.valuation_low ?? estimatedValue),
+      highEstimate: Number(record.valuation_high ?? estimatedValue),
+      confidence: oneOf(record.valuation_confidence, LEVELS, 'low'),
+      sources: record.valuation_sources || [],
+      reasoning: record.valuation_reasoning || '',
+      ...(record.quantity && record.quantity > 1 ? { quantity: record.quantity, unitValue: estimatedValue / record.quantity } : {}),
+      ...(redFlagFactor < 1 ? { redFlagFactor } : {}),
+      outputSource: record.valuation_source
+    },
+    resale: {
+      recommendedChannel: record.recommended_channel || 'Unknown',
+      riskScore: oneOf(record.risk_score, LEVELS, 'medium'),
+      riskReasoning: record.risk_reasoning || '',
+      tips: record.resale_tips || [],
+      outputSource: record.advice_source
+    },
+    valuedAt: record.valued_at || record.created_at
+  };
+}
@@ -0,0 +1,468 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AnalysisRunRecord, AnalysisRunItemRecord } from '@/lib/supabase';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { ANALYSIS_RUN_CONFIG, SCRAPE_CONFIG } from '@/lib/config';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  AnalysisRunItemStatus, AnalysisRunProgress, AnalysisRunResponse, AnalysisSettings, AnalysisStage,
+  AnalysisStreamEvent, AnalyzedItem, ItemFailure, ParsedItem, RawKBidItem
+} from '@/lib/types';
+import { itemFailure, toAnalysisError } from '@/lib/analysisErrors';
+import { extractionCacheStats, extractItem, extractLots } from '@/services/aiExtractor';
+import { getValuation } from '@/services/webSearchValuation';
+import { findRecentAnalyses, reuseAnalysis, RecentAnalysis } from '@/services/analysisReuse';
+import { ineligibleReason, logAnalyzedItems, priceItem, repriceItem, shareTripCosts } from '@/services/batchAnalyzer';
+import { resolveExclusionRules } from '@/services/exclusionRules';
+
+// Resumable analysis: a run's items are submitted once and stored, then any
+// number of worker calls move each item pending -> extracted -> valued -> done,
+// saving after every stage. A request that times out loses at most the stage
+// in flight; its leases expire and the next call picks the items up again.
+
+const UNFINISHED: AnalysisRunItemStatus[] = ['pending', 'extracted', 'valued'];
+
+// Receives each item's progress as it happens (see /api/analysis-runs/[id]/stream)
+export type AnalysisRunListener = (event: AnalysisStreamEvent) => void;
+
+export interface ProcessRunOptions {
+  maxItems?: number;           // Stop after this many items (default: the whole run)
+  onEvent?: AnalysisRunListener;
+  signal?: AbortSignal;        // Stop claiming items and abort the ones in flight
+  retryFailed?: boolean;       // Re-run only the run's failed items
+}
+
+// Where a failed item picks up again when retried
+const RETRY_STATUS: Record<AnalysisStage, AnalysisRunItemStatus> = {
+  extracting: 'pending',
+  valuing: 'extracted',
+  pricing: 'valued',
+  advising: 'valued'
+};
+
+// The run tables have RLS with no policies for writes, so runs are only reached
+// through the API, which checks the owner first (see isAnalysisRunOwner)
+function db(): SupabaseClient {
+  const client = getSupabaseAdmin();
+  if (!client) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  }
+  return client;
+}
+
+function itemRows(runId: string, rawItems: RawKBidItem[], firstPosition: number) {
+  return rawItems.map((rawItem, index) => ({
+    run_id: runId,
+    position: firstPosition + index,
+    raw_item: rawItem
+  }));
+}
+
+export async function createAnalysisRun(settings: AnalysisSettings, rawItems: RawKBidItem[], userId: string): Promise<string> {
+  const { data: run, error } = await db()
+    .from('analysis_runs')
+    .insert({ user_id: userId, params: settings, total_items: rawItems.length })
+    .select('id')
+    .single();
+  if (error) throw new Error(`Failed to create analysis run: ${error.message}`);
+
+  const { error: itemsError } = await db()
+    .from('analysis_run_items')
+    .insert(itemRows(run.id, rawItems, 0));
+  if (itemsError) {
+    await db().from('analysis_runs').delete().eq('id', run.id);
+    throw new Error(`Failed to save analysis run items: ${itemsError.message}`);
+  }
+
+  return run.id;
+}
+
+async function loadRun(runId: string): Promise<AnalysisRunRecord | null> {
+  const { data, error } = await db()
+    .from('analysis_runs')
+    .select('*')
+    .eq('id', runId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load analysis run: ${error.message}`);
+  return data;
+}
+
+// Whether the run exists and was submitted by this user
+export async function isAnalysisRunOwner(runId: string, userId: string): Promise<boolean> {
+  const { data, error } = await db()
+    .from('analysis_runs')
+    .select('id')
+    .eq('id', runId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load analysis run: ${error.message}`);
+  return !!data;
+}
+
+async function loadRunItems(runId: string): Promise<AnalysisRunItemRecord[]> {
+  const { data, error } = await db()
+    .from('analysis_run_items')
+    .select('*')
+    .eq('run_id', runId)
+    .order('position', { ascending: true });
+  if (error) throw new Error(`Failed to load analysis run items: ${error.message}`);
+  return data || [];
+}
+
+// Items scraped later (e.g. "Add More Items") join the same run.
+// Returns false if the run doesn't exist.
+export async function addAnalysisRunItems(runId: string, rawItems: RawKBidItem[]): Promise<boolean> {
+  // Positions are reserved in the database so concurrent appends can't collide
+  const { data: firstPosition, error: reserveError } = await db().rpc('reserve_analysis_run_positions', {
+    target_run_id: runId,
+    item_count: rawItems.length
+  });
+  if (reserveError) throw new Error(`Failed to add items to analysis run: ${reserveError.message}`);
+  if (firstPosition === null) return false;
+
+  const { error } = await db()
+    .from('analysis_run_items')
+    .insert(itemRows(runId, rawItems, firstPosition));
+  if (error) throw new Error(`Failed to add items to analysis run: ${error.message}`);
+
+  // Only once the items are in, so a worker finishing the run can't miss them
+  const { error: runError } = await db()
+    .from('analysis_runs')
+    .update({ status: 'running', completed_at: null })
+    .eq('id', runId);
+  if (runError) throw new Error(`Failed to update analysis run: ${runError.message}`);
+
+  return true;
+}
+
+// Lease up to `limit` unfinished items, optionally only those at `positions`.
+// The conditional update means two workers never hold the same item: the
+// loser's update matches no rows.
+async function claimItems(runId: string, limit: number, positions?: number[]): Promise<AnalysisRunItemRecord[]> {
+  const now = new Date().toISOString();
+  let query = db()
+    .from('analysis_run_items')
+    .select('id')
+    .eq('run_id', runId)
+    .in('status', UNFINISHED)
+    .or(`locked_until.is.null,locked_until.lt."${now}"`);
+  if (positions) {
+    query = query.in('position', positions);
+  }
+  const { data: candidates, error } = await query
+    .order('position', { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(`Failed to find items to analyze: ${error.message}`);
+  if (!candidates || candidates.length === 0) return [];
+
+  const { data: claimed, error: claimError } = await db()
+    .from('analysis_run_items')
+    .update({ locked_until: new Date(Date.now() + ANALYSIS_RUN_CONFIG.leaseMs).toISOString() })
+    .in('id', candidates.map(candidate => candidate.id))
+    .or(`locked_until.is.null,locked_until.lt."${now}"`)
+    .select('*');
+  if (claimError) throw new Error(`Failed to lease items: ${claimError.message}`);
+
+  return (claimed || []).sort((a, b) => a.position - b.position);
+}
+
+// Move an item out of `from`. False if another worker already moved it.
+async function saveStage(
+  item: AnalysisRunItemRecord,
+  from: AnalysisRunItemStatus,
+  fields: Partial<AnalysisRunItemRecord>
+): Promise<boolean> {
+  const { data, error } = await db()
+    .from('analysis_run_items')
+    .update(fields)
+    .eq('id', item.id)
+    .eq('status', from)
+    .select('id');
+  if (error) throw new Error(`Failed to save item progress: ${error.message}`);
+  return (data || []).length > 0;
+}
+
+// Work already done for a pending item before it's advanced
+interface PreparedItem {
+  reused?: RecentAnalysis;     // Recent analysis of the same lot: straight to re-pricing
+  extracted?: ParsedItem;      // Read in a batched extraction prompt
+}
+
+// Run an item through whatever stages it has left
+async function advanceItem(
+  item: AnalysisRunItemRecord,
+  settings: AnalysisSettings,
+  onEvent?: AnalysisRunListener,
+  signal?: AbortSignal,
+  prepared: PreparedItem = {}
+): Promise<void> {
+  const { reused } = prepared;
+  let { status, parsed_item: parsed, valuation } = item;
+  const position = item.position;
+  let stage: AnalysisStage = 'extracting';
+  const enter = (next: AnalysisStage) => {
+    stage = next;
+    onEvent?.({ type: 'stage', position, stage: next });
+  };
+
+  try {
+    if (status === 'pending') {
+      enter(reused ? 'pricing' : 'extracting');
+      const extracted = reused?.item ?? prepared.extracted ??
+        await extractItem(item.raw_item, position, signal, resolveExclusionRules(settings.exclusion_rules));
+
+      const skipReason = ineligibleReason(extracted, settings);
+      if (skipReason) {
+        if (await saveStage(item, status, { status: 'done', parsed_item: extracted, skip_reason: skipReason, locked_until: null })) {
+          onEvent?.({ type: 'skipped', position, reason: skipReason });
+        }
+        return;
+      }
+      if (reused) {
+        const result = repriceItem(reused, settings);
+        const saved = await saveStage(item, status, {
+          status: 'done', parsed_item: extracted, valuation: reused.valuation, result, error: null, locked_until: null
+        });
+        if (saved) onEvent?.({ type: 'item', position, item: result });
+        return;
+      }
+      if (!await saveStage(item, status, { status: 'extracted', parsed_item: extracted, error: null })) return;
+      status = 'extracted';
+      parsed = extracted;
+    }
+
+    if (status === 'extracted' && parsed) {
+      enter('valuing');
+      const valued = await getValuation(parsed, signal);
+      if (!await saveStage(item, status, { status: 'valued', valuation: valued, error: null })) return;
+      status = 'valued';
+      valuation = valued;
+    }
+
+    if (status === 'valued' && parsed && valuation) {
+      enter('pricing');
+      const result = await priceItem(parsed, valuation, settings, { signal, onAdvice: () => enter('advising') });
+      if (await saveStage(item, status, { status: 'done', result, error: null, locked_until: null })) {
+        onEvent?.({ type: 'item', position, item: result });
+      }
+    }
+  } catch (error) {
+    const failure = toAnalysisError(error, signal);
+
+    // A cancelled item isn't a failed one: hand it straight back for the next worker
+    if (failure.reason === 'cancelled') {
+      await saveStage(item, status, { locked_until: null })
+        .catch(saveError => console.error('Failed to release cancelled item:', saveError));
+      return;
+    }
+
+    console.error(`Analysis run item ${position} failed at ${stage}:`, failure.message);
+
+    // Keep the stage that was reached; after too many tries, give up on the item
+    const attempts = item.attempts + 1;
+    const willRetry = attempts < ANALYSIS_RUN_CONFIG.maxAttempts;
+    onEvent?.({ type: 'failed', position, failure: itemFailure(parsed || item.raw_item, stage, failure, position), willRetry });
+    await saveStage(item, status, {
+      status: willRetry ? status : 'failed',
+      attempts,
+      error: failure.message,
+      failure_reason: failure.reason,
+      failed_stage: stage,
+      locked_until: null
+    }).catch(saveError => console.error('Failed to record item error:', saveError));
+  }
+}
+
+// Find recent analyses to reuse for the claimed pending items, then extract
+// the rest together in batched prompts. Anything left over is extracted on
+// its own by advanceItem, which also handles cancellation.
+async function prepareItems(
+  claimed: AnalysisRunItemRecord[],
+  settings: AnalysisSettings,
+  onEvent?: AnalysisRunListener,
+  signal?: AbortSignal
+): Promise<Map<string, PreparedItem>> {
+  const prepared = new Map<string, PreparedItem>();
+  const pending = claimed.filter(item => item.status === 'pending');
+  const recent = await findRecentAnalyses(pending.map(item => item.raw_item));
+
+  const toExtract: AnalysisRunItemRecord[] = [];
+  for (const item of pending) {
+    const reused = reuseAnalysis(item.raw_item, recent);
+    if (reused) prepared.set(item.id, { reused });
+    else toExtract.push(item);
+  }
+
+  for (const item of toExtract) {
+    onEvent?.({ type: 'stage', position: item.position, stage: 'extracting' });
+  }
+  const rules = resolveExclusionRules(settings.exclusion_rules);
+  const extracted = await extractLots(toExtract.map(item => item.raw_item), signal, rules)
+    .catch(() => new Map<number, ParsedItem>());
+  for (const [index, parsed] of extracted) {
+    const item = toExtract[index];
+    prepared.set(item.id, { extracted: { ...parsed, id: `item-${item.position}-${Date.now()}` } });
+  }
+
+  return prepared;
+}
+
+// Put failed items back where they failed, with a fresh set of attempts.
+// Returns their positions.
+async function resetFailedItems(runId: string): Promise<number[]> {
+  const positions: number[] = [];
+  for (const status of UNFINISHED) {
+    const stages = (Object.keys(RETRY_STATUS) as AnalysisStage[]).filter(stage => RETRY_STATUS[stage] === status);
+    let query = db()
+      .from('analysis_run_items')
+      .update({ status, attempts: 0, error: null, failure_reason: null, failed_stage: null, locked_until: null })
+      .eq('run_id', runId)
+      .eq('status', 'failed');
+    // Items that failed before failed_stage was recorded start over
+    query = status === 'pending'
+      ? query.or(`failed_stage.is.null,failed_stage.in.(${stages.join(',')})`)
+      : query.in('failed_stage', stages);
+
+    const { data, error } = await query.select('position');
+    if (error) throw new Error(`Failed to reset failed items: ${error.message}`);
+    positions.push(...(data || []).map(item => item.position));
+  }
+  return positions;
+}
+
+function failureList(items: AnalysisRunItemRecord[]): ItemFailure[] {
+  return items
+    .filter(item => item.status === 'failed')
+    .map(item => ({
+      position: item.position,
+      title: item.parsed_item?.title || item.raw_item.title || item.raw_item.text.substring(0, 80),
+      url: item.raw_item.url,
+      stage: item.failed_stage || 'extracting',
+      reason: item.failure_reason || 'unknown',
+      message: item.error || 'Unknown error'
+    }));
+}
+
+// Finished results for the whole run, with pickup trips shared across all of
+// its lots rather than just those a single worker call happened to process
+function runResults(items: AnalysisRunItemRecord[], settings: AnalysisSettings): Map<string, AnalyzedItem> {
+  const finished = items.filter(item => item.status === 'done' && item.result);
+  const shared = shareTripCosts(finished.map(item => item.result!), settings);
+  return new Map(finished.map((item, index) => [item.id, shared[index]]));
+}
+
+// Write results to analyzed_auctions exactly once. Claiming logged_at first
+// keeps two workers finishing at the same time from logging the same item.
+async function logNewResults(items: AnalysisRunItemRecord[], results: Map<string, AnalyzedItem>): Promise<void> {
+  const unlogged = items.filter(item => results.has(item.id) && !item.logged_at).map(item => item.id);
+  if (unlogged.length === 0) return;
+
+  const { data: claimed, error } = await db()
+    .from('analysis_run_items')
+    .update({ logged_at: new Date().toISOString() })
+    .in('id', unlogged)
+    .is('logged_at', null)
+    .select('id');
+  if (error) {
+    console.error('Failed to mark analysis results as logged:', error);
+    return;
+  }
+
+  await logAnalyzedItems((claimed || []).map(item => results.get(item.id)!));
+}
+
+function countProgress(items: AnalysisRunItemRecord[]): AnalysisRunProgress {
+  const progress: AnalysisRunProgress = { total: items.length, pending: 0, extracted: 0, valued: 0, done: 0, failed: 0 };
+  for (const item of items) {
+    progress[item.status]++;
+  }
+  return progress;
+}
+
+function toResponse(
+  run: AnalysisRunRecord,
+  items: AnalysisRunItemRecord[],
+  results: Map<string, AnalyzedItem>,
+  includeRawItems: boolean
+): AnalysisRunResponse {
+  const analyzed = [...results.values()].sort((a, b) => b.profit.expectedProfit - a.profit.expectedProfit);
+  const progress = countProgress(items);
+
+  return {
+    success: true,
+    runId: run.id,
+    status: run.status,
+    settings: run.params,
+    progress,
+    items: analyzed,
+    summary: {
+      totalScraped: progress.total,
+      totalAnalyzed: analyzed.length + progress.failed,
+      totalProfitable: analyzed.filter(item => item.meetsCriteria).length,
+      errors: progress.failed,
+      extractionCache: extractionCacheStats(items.flatMap(item => item.parsed_item ? [item.parsed_item] : []))
+    },
+    failures: failureList(items),
+    rawItems: includeRawItems ? items.map(item => item.raw_item) : undefined
+  };
+}
+
+// Current state of a run, or null if it doesn't exist
+export async function getAnalysisRun(runId: string, includeRawItems = false): Promise<AnalysisRunResponse | null> {
+  const run = await loadRun(runId);
+  if (!run) return null;
+
+  const items = await loadRunItems(runId);
+  return toResponse(run, items, runResults(items, run.params), includeRawItems);
+}
+
+// Work on a run until `maxItems` items have been taken through to the end,
+// nothing is left to claim, the time budget runs out or `signal` is aborted.
+// Safe to call from several clients at once and to call again after a timeout.
+export async function processAnalysisRun(
+  runId: string,
+  options: ProcessRunOptions = {}
+): Promise<AnalysisRunResponse | null> {
+  const { onEvent, signal } = options;
+  const run = await loadRun(runId);
+  if (!run) return null;
+
+  let positions: number[] | undefined;
+  if (options.retryFailed) {
+    positions = await resetFailedItems(runId);
+    if (positions.length > 0 && run.status === 'completed') {
+      await db().from('analysis_runs').update({ status: 'running', completed_at: null }).eq('id', runId);
+      run.status = 'running';
+    }
+  }
+
+  const deadline = Date.now() + ANALYSIS_RUN_CONFIG.timeBudget;
+  const limit = options.maxItems && options.maxItems > 0 ? options.maxItems : positions?.length ?? run.total_items;
+  let processed = 0;
+
+  while (processed < limit && Date.now() < deadline && !signal?.aborted) {
+    const claimed = await claimItems(runId, Math.min(ANALYSIS_RUN_CONFIG.claimSize, limit - processed), positions);
+    if (claimed.length === 0) break;
+
+    const prepared = await prepareItems(claimed, run.params, onEvent, signal);
+    await mapWithConcurrency(claimed, SCRAPE_CONFIG.concurrentWorkers, item =>
+      advanceItem(item, run.params, onEvent, signal, prepared.get(item.id))
+    );
+    processed += claimed.length;
+  }
+
+  const items = await loadRunItems(runId);
+  const results = runResults(items, run.params);
+  await logNewResults(items, results);
+
+  if (run.status === 'running' && !items.some(item => UNFINISHED.includes(item.status))) {
+    const { error } = await db()
+      .from('analysis_runs')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', runId)
+      .eq('status', 'running');
+    if (error) console.error('Failed to mark analysis run completed:', error);
+    else run.status = 'completed';
+  }
+
+  return toResponse(run, items, results, false);
+}
@@ -0,0 +1,298 @@
+import {
+  RawKBidItem,
+  AuctionListing,
+  Territory,
+  SkippedAuction,
+  AuctionSkipReason,
+  SavedSearch,
+  ScrapeHealthReport
+} from '@/lib/types';
+import { SCRAPE_CONFIG } from '@/lib/config';
+import { centralDayBoundary } from '@/lib/auctionTime';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { buildHealthReport } from '@/services/scrapeHealth';
+import { Coordinates, pickupDistance, resolveTerritoryCenter } from '@/services/geoLocator';
+import { AuctionSource, getAuctionSource, sourceForUrl } from '@/services/auctionSource';
+import { matchesSavedSearch, searchKeywords } from '@/services/savedSearches';
+
+export interface ScrapeOptions {
+  source?: AuctionSource;      // Index to read when no URL is given; K-Bid by default
+  includeLotDetails?: boolean; // Fetch each lot's detail page (one extra request per lot)
+  territory?: Territory;       // Drop auctions picked up outside this radius
+  signal?: AbortSignal;        // Checked before each auction, keyword search and lot page
+}
+
+export interface ScrapeResult {
+  items: RawKBidItem[];
+  skippedAuctions: SkippedAuction[];
+  health: ScrapeHealthReport;
+}
+
+// Set each item's distance from the territory center. Items picked up outside
+// the radius are dropped unless keepAll is set; unknown locations are kept.
+async function applyTerritory(
+  items: RawKBidItem[],
+  center: Coordinates,
+  radiusMiles: number,
+  keepAll = false
+): Promise<RawKBidItem[]> {
+  const located: RawKBidItem[] = [];
+  for (const item of items) {
+    const distance = await pickupDistance(center, item.pickupLocation);
+    if (!keepAll && distance !== undefined && distance > radiusMiles) continue;
+    located.push(distance !== undefined ? { ...item, distanceMiles: distance } : item);
+  }
+
+  if (located.length < items.length) {
+    console.log(`Dropped ${items.length - located.length} items outside ${radiusMiles}mi territory`);
+  }
+  return located;
+}
+
+async function addLotDetails(source: AuctionSource, items: RawKBidItem[], signal?: AbortSignal): Promise<RawKBidItem[]> {
+  console.log(`Fetching lot details for ${items.length} items...`);
+  return mapWithConcurrency(items, SCRAPE_CONFIG.detailConcurrency, item => {
+    signal?.throwIfAborted();
+    return source.fetchLot(item, signal);
+  });
+}
+
+async function resolveCenter(territory?: Territory): Promise<Coordinates | null> {
+  const center = territory ? await resolveTerritoryCenter(territory) : null;
+  if (territory && !center) {
+    console.warn('Territory has no known coordinates, skipping distance filter');
+  }
+  return center;
+}
+
+// Shared tail of every scrape: territory filter, health report, lot details
+async function finishScrape(
+  source: AuctionSource,
+  items: RawKBidItem[],
+  skippedAuctions: SkippedAuction[],
+  healthSource: string,
+  center: Coordinates | null,
+  options: ScrapeOptions,
+  keepAll = false
+): Promise<ScrapeResult> {
+  const { territory } = options;
+  if (center && territory) {
+    items = await applyTerritory(items, center, territory.radiusMiles, keepAll);
+  }
+
+  // Measured before lot details so detail pages can't mask card extraction drift
+  const health = buildHealthReport(items, healthSource, skippedAuctions.length);
+  if (health.warnings.length > 0) {
+    console.warn(`Scrape health warnings: ${health.warnings.join('; ')}`);
+  }
+
+  if (options.includeLotDetails) {
+    items = await addLotDetails(source, items, options.signal);
+  }
+
+  return { items, skippedAuctions, health };
+}
+
+export async function scrapeAuctions(
+  maxItems: number,
+  startDate: string,
+  endDate: string,
+  singleAuctionUrl?: string,
+  options: ScrapeOptions = {}
+): Promise<ScrapeResult> {
+  let items: RawKBidItem[];
+  let skippedAuctions: SkippedAuction[] = [];
+  const { territory } = options;
+  const center = await resolveCenter(territory);
+
+  // A pasted URL picks its own source
+  const source = singleAuctionUrl
+    ? sourceForUrl(singleAuctionUrl)
+    : options.source || getAuctionSource();
+  if (!source) {
+    throw new Error(`No auction source handles ${singleAuctionUrl}`);
+  }
+
+  // If single auction URL provided, use that instead of date range search
+  if (singleAuctionUrl) {
+    items = await source.lotsFromUrl(singleAuctionUrl, maxItems, options.signal);
+  } else {
+    ({ items, skippedAuctions } = await scrapeOpenAuctions(source, maxItems, startDate, endDate, center && territory ? {
+      center,
+      radiusMiles: territory.radiusMiles
+    } : undefined, options.signal));
+  }
+
+  // An auction the user linked directly is never dropped, only measured
+  const keepAll = !!singleAuctionUrl && !source.isSearchUrl(singleAuctionUrl);
+  return finishScrape(source, items, skippedAuctions, singleAuctionUrl || `${source.id}:index`, center, options, keepAll);
+}
+
+// Run each keyword of a saved search as a source search, then merge, dedupe
+// and apply the search's exclusions, price cap and date window
+export async function scrapeSavedSearch(
+  search: SavedSearch,
+  maxItems: number,
+  options: ScrapeOptions = {}
+): Promise<ScrapeResult> {
+  const source = options.source || getAuctionSource();
+  if (!source) {
+    throw new Error('No auction source configured');
+  }
+  const keywords = searchKeywords(search);
+  if (keywords.length === 0) {
+    throw new Error(`Saved search "${search.name}" has no keywords`);
+  }
+  const center = await resolveCenter(options.territory);
+
+  console.log(`Running saved search "${search.name}" on ${source.name}: ${keywords.join(', ')}`);
+  let failures = 0;
+  const results = await mapWithConcurrency(keywords, SCRAPE_CONFIG.parallelAuctions, async keyword => {
+    options.signal?.throwIfAborted();
+    try {
+      // Each keyword is capped on its own; the merged list is capped again below
+      return await source.lotsFromUrl(source.searchUrl(keyword), maxItems, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error(`Search for "${keyword}" failed:`, error);
+      failures++;
+      return [];
+    }
+  });
+  if (failures === keywords.length) {
+    throw new Error(`Every search in "${search.name}" failed`);
+  }
+
+  // Deduplicate by URL - the same lot often matches several keywords
+  const seen = new Set<string>();
+  const now = new Date();
+  const items = results.flat().filter(item => {
+    if (seen.has(item.url)) return false;
+    seen.add(item.url);
+    return matchesSavedSearch(item, search, now);
+  });
+
+  console.log(`Saved search "${search.name}" matched ${items.length} unique lots`);
+
+  return finishScrape(
+    source,
+    maxItems > 0 ? items.slice(0, maxItems) : items,
+    [],
+    `saved search: ${search.name}`,
+    center,
+    options
+  );
+}
+
+// Scrape every auction on the source's index that closes within the date range
+async function scrapeOpenAuctions(
+  source: AuctionSource,
+  maxItems: number,
+  startDate: string,
+  endDate: string,
+  territory?: { center: Coordinates; radiusMiles: number },
+  signal?: AbortSignal
+): Promise<Omit<ScrapeResult, 'health'>> {
+  try {
+    const now = new Date();
+    // The date range is in K-Bid's Central time, not the server's zone
+    const minEndDate = centralDayBoundary(startDate);
+    const maxEndDate = centralDayBoundary(endDate, true);
+    const skippedAuctions: SkippedAuction[] = [];
+    const skip = (auction: AuctionListing, reason: AuctionSkipReason, detail?: string) => {
+      skippedAuctions.push({ url: auction.url, title: auction.title, reason, detail });
+    };
+
+    console.log(`Scraping ${source.name} auctions closing between ${startDate} and ${endDate} (Central)...`);
+
+    // Step 1: Get list of auctions
+    const auctions = await source.listAuctions(signal);
+    console.log(`Found ${auctions.length} auctions on the index`);
+
+    if (auctions.length === 0) {
+      throw new Error(`No auctions found on ${source.name} auction index`);
+    }
+
+    // Step 2: Filter auctions by close date - within the specified date range
+    let auctionsToScrape = auctions.filter(a => {
+      // If we couldn't parse the date, include it (to be safe)
+      if (!a.endsAt) return true;
+      const endsAt = new Date(a.endsAt);
+      if (endsAt < now) {
+        skip(a, 'closed', a.endsAt);
+        return false;
+      }
+      if (endsAt < minEndDate || endsAt > maxEndDate) {
+        skip(a, 'outside_date_range', a.endsAt);
+        return false;
+      }
+      return true;
+    });
+
+    console.log(`${auctionsToScrape.length} auctions closing between ${startDate} and ${endDate} (excluding already closed)`);
+
+    // Skip whole auctions picked up outside the territory before fetching them
+    if (territory) {
+      const nearby: AuctionListing[] = [];
+      for (const auction of auctionsToScrape) {
+        const distance = await pickupDistance(territory.center, auction.pickup);
+        if (distance === undefined || distance <= territory.radiusMiles) {
+          nearby.push(auction);
+        } else {
+          skip(auction, 'outside_territory', `${distance} mi`);
+        }
+      }
+      console.log(`${nearby.length} of ${auctionsToScrape.length} auctions within ${territory.radiusMiles}mi`);
+      auctionsToScrape = nearby;
+    }
+
+    // Step 3: Scrape items from every auction, a few at a time
+    console.log(`Scraping ${auctionsToScrape.length} auctions, ${SCRAPE_CONFIG.parallelAuctions} at a time...`);
+    let itemCount = 0;
+
+    const results = await mapWithConcurrency(auctionsToScrape, SCRAPE_CONFIG.parallelAuctions, async auction => {
+      signal?.throwIfAborted();
+      if (maxItems > 0 && itemCount >= maxItems) {
+        skip(auction, 'item_limit', `${maxItems} items already collected`);
+        return [];
+      }
+
+      console.log(`Scraping: ${auction.title.substring(0, 40)}... (closes: ${auction.endsAt || 'unknown'})`);
+      try {
+        const items = await source.listLots(auction, signal);
+        if (items.length === 0) {
+          skip(auction, 'no_open_lots');
+        }
+        itemCount += items.length;
+        return items;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`Failed to fetch auction ${auction.url}:`, error);
+        skip(auction, 'fetch_failed', error instanceof Error ? error.message : undefined);
+        return [];
+      }
+    });
+    const allItems: RawKBidItem[] = results.flat();
+
+    // Deduplicate by URL
+    const seen = new Set<string>();
+    const uniqueItems = allItems.filter(item => {
+      const key = item.url || item.text.substring(0, 100);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    console.log(`Found ${uniqueItems.length} unique items from ${auctionsToScrape.length} auctions (${skippedAuctions.length} skipped)`);
+
+    return {
+      items: maxItems > 0 ? uniqueItems.slice(0, maxItems) : uniqueItems,
+      skippedAuctions
+    };
+
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('Scraping error:', error);
+    throw new Error(`Failed to scrape ${source.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,45 @@
+import { AuctionListing, LotStatus, RawKBidItem } from '@/lib/types';
+import { kbidSource } from '@/services/kbidSource';
+import { fixtureSource } from '@/services/fixtureSource';
+
+// A site (or file) the pipeline can ingest lots from. Each source turns its
+// own pages into RawKBidItems; date/territory filtering, health reporting
+// and everything downstream of scraping don't know which source they came from.
+export interface AuctionSource {
+  id: string;    // Used in the scrape request's `source` param and health reports
+  name: string;  // For logs and error messages
+  // Whether a pasted auction or search URL belongs to this source
+  handlesUrl(url: string): boolean;
+  // Whether a pasted URL is a search spanning auctions rather than one auction
+  isSearchUrl(url: string): boolean;
+  // Search URL for a keyword, readable by lotsFromUrl
+  searchUrl(keyword: string): string;
+  // The signal taken by the methods below cancels their requests in flight
+
+  // Every auction on the source's index
+  listAuctions(signal?: AbortSignal): Promise<AuctionListing[]>;
+  // Open lots of one auction from the index
+  listLots(auction: AuctionListing, signal?: AbortSignal): Promise<RawKBidItem[]>;
+  // Open lots behind a pasted auction or search URL (maxItems 0 = no limit)
+  lotsFromUrl(url: string, maxItems: number, signal?: AbortSignal): Promise<RawKBidItem[]>;
+  // The lot with its detail page fields filled in; unchanged if that fails
+  fetchLot(item: RawKBidItem, signal?: AbortSignal): Promise<RawKBidItem>;
+  // Current bid and close time, read fresh from the source
+  refreshBid(lotUrl: string): Promise<LotStatus>;
+}
+
+export const DEFAULT_SOURCE_ID = 'kbid';
+
+const AUCTION_SOURCES: AuctionSource[] = [kbidSource, fixtureSource];
+
+export function getAuctionSource(id: string = DEFAULT_SOURCE_ID): AuctionSource | undefined {
+  return AUCTION_SOURCES.find(source => source.id === id);
+}
+
+export function sourceForUrl(url: string): AuctionSource | undefined {
+  return AUCTION_SOURCES.find(source => source.handlesUrl(url));
+}
+
+export function auctionSourceIds(): string[] {
+  return AUCTION_SOURCES.map(source => source.id);
+}
@@ -0,0 +1,52 @@
+import { supabase, AuctionTermsRecord } from '@/lib/supabase';
+import { AuctionTerms } from '@/lib/types';
+import { DEFAULT_AUCTION_TERMS } from '@/lib/config';
+
+// Fill in anything the auction page didn't state with the defaults
+export function resolveAuctionTerms(found: Partial<AuctionTerms>): AuctionTerms {
+  return { ...DEFAULT_AUCTION_TERMS, ...found };
+}
+
+// Load previously scraped terms for a set of auctions
+export async function loadAuctionTerms(auctionIds: string[]): Promise<Map<string, AuctionTerms>> {
+  const terms = new Map<string, AuctionTerms>();
+  if (auctionIds.length === 0) return terms;
+
+  const { data, error } = await supabase
+    .from('auction_terms')
+    .select('*')
+    .in('auction_id', auctionIds);
+
+  if (error) {
+    console.error('Failed to load auction terms:', error);
+    return terms;
+  }
+
+  for (const row of (data || []) as AuctionTermsRecord[]) {
+    terms.set(row.auction_id, {
+      buyerPremiumRate: Number(row.buyer_premium_rate),
+      salesTaxRate: Number(row.sales_tax_rate),
+      lotFee: Number(row.lot_fee)
+    });
+  }
+  return terms;
+}
+
+// Store the terms read from an auction page
+export async function saveAuctionTerms(auctionId: string, auctionUrl: string, terms: AuctionTerms): Promise<void> {
+  const { error } = await supabase
+    .from('auction_terms')
+    .upsert({
+      auction_id: auctionId,
+      auction_url: auctionUrl,
+      buyer_premium_rate: terms.buyerPremiumRate,
+      sales_tax_rate: terms.salesTaxRate,
+      lot_fee: terms.lotFee,
+    }, {
+      onConflict: 'auction_id'
+    });
+
+  if (error) {
+    console.error(`Failed to save terms for auction ${auctionId}:`, error);
+  }
+}
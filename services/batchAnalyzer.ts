@@ -0,0 +1,388 @@
+import { extractionCacheStats, extractItemDetails } from '@/services/aiExtractor';
+import { getValuation } from '@/services/webSearchValuation';
+import { calculateProfit, totalAcquisitionCost } from '@/services/profitCalculator';
+import { getResaleAdvice } from '@/services/resaleAdvisor';
+import { saveBidHistory } from '@/services/bidHistory';
+import { findRecentAnalyses, reuseAnalysis, RecentAnalysis } from '@/services/analysisReuse';
+import { exclusionReason, resolveExclusionRules } from '@/services/exclusionRules';
+import {
+  AnalyzedItem, AnalysisParams, AnalysisResponse, AnalysisSettings, ItemFailure, ParsedItem, ProfitAnalysis, RawKBidItem,
+  ValuationResult
+} from '@/lib/types';
+import { itemFailure, toAnalysisError } from '@/lib/analysisErrors';
+import { mapToFilterCategory, CATEGORY_OPTIONS, DEFAULT_AUCTION_TERMS } from '@/lib/config';
+import { supabase, AnalyzedAuctionInsert } from '@/lib/supabase';
+
+// Determine if auction is closed based on end date
+function getAuctionStatus(endDateStr?: string): { isClosed: boolean; status: 'live' | 'closed' | 'sold' | 'unsold' } {
+  if (!endDateStr) {
+    return { isClosed: false, status: 'live' };
+  }
+
+  try {
+    // End dates are ISO timestamps from the scraper
+    const endDate = new Date(endDateStr);
+    const now = new Date();
+
+    if (isNaN(endDate.getTime())) {
+      return { isClosed: false, status: 'live' };
+    }
+
+    const isClosed = endDate < now;
+    // If closed and has bids, assume sold (we can refine this later with actual sale data)
+    return {
+      isClosed,
+      status: isClosed ? 'closed' : 'live'
+    };
+  } catch {
+    return { isClosed: false, status: 'live' };
+  }
+}
+
+// Log analyzed items to database for market intelligence
+export async function logAnalyzedItems(items: AnalyzedItem[]): Promise<void> {
+  if (items.length === 0) return;
+
+  const auctionRecords: AnalyzedAuctionInsert[] = items.map(item => {
+    // Overpay = total cost exceeds value after selling fees (excludes shipping)
+    // This accounts for: the auction's buyer premium, tax, lot fees and selling fees
+    const terms = item.item.auctionTerms || DEFAULT_AUCTION_TERMS;
+    const actualTotalCost = totalAcquisitionCost(item.item.currentBid, terms);
+    const netValueAfterFees = item.valuation.estimatedValue - item.profit.fees;
+    const isOverbid = actualTotalCost > netValueAfterFees;
+    // Overpay amount is how much over the net value they paid
+    const overpayAmount = isOverbid ? actualTotalCost - netValueAfterFees : undefined;
+    // Overpay percent relative to net value
+    const overpayPercent = isOverbid && netValueAfterFees > 0
+      ? ((actualTotalCost - netValueAfterFees) / netValueAfterFees) * 100
+      : undefined;
+
+    // Determine auction status
+    const { isClosed, status } = getAuctionStatus(item.item.closesAt || item.item.auctionEndDate);
+
+    return {
+      title: item.item.title,
+      description: item.item.description,
+      category: item.item.category,
+      condition: item.item.condition,
+      size_class: item.item.sizeClass,
+      auction_url: item.item.auctionUrl,
+      image_url: item.item.imageUrl,
+      auction_end_date: item.item.closesAt || item.item.auctionEndDate,
+      bid_count: item.item.bidCount || 0,
+      bidder_count: item.item.bidderCount || 0,
+      interest_level: item.item.interestLevel,
+      current_bid: item.item.currentBid,
+      estimated_value: item.valuation.estimatedValue,
+      max_bid: item.profit.maxBid,
+      actual_profit: item.profit.actualProfit,
+      actual_roi: item.profit.actualROI,
+      expected_profit: item.profit.expectedProfit,
+      expected_roi: item.profit.expectedROI,
+      break_even_price: item.profit.breakEvenPrice,
+      shipping_estimate: item.profit.shippingEstimate,
+      fees: item.profit.fees,
+      is_overbid: isOverbid,
+      is_profitable: item.meetsCriteria,
+      overpay_amount: overpayAmount,
+      overpay_percent: overpayPercent,
+      is_closed: isClosed,
+      auction_status: status,
+      risk_score: item.resale.riskScore,
+      risk_reasoning: item.resale.riskReasoning,
+      recommended_channel: item.resale.recommendedChannel,
+      valuation_confidence: item.valuation.confidence,
+      valuation_reasoning: item.valuation.reasoning,
+      valuation_low: item.valuation.lowEstimate,
+      valuation_high: item.valuation.highEstimate,
+      buyer_premium_rate: terms.buyerPremiumRate,
+      sales_tax_rate: terms.salesTaxRate,
+      lot_fee: terms.lotFee,
+      shipping_available: item.item.shippingAvailable,
+      valuation_sources: item.valuation.sources,
+      resale_tips: item.resale.tips,
+      valued_at: item.reusedValuationAt,
+      extraction_source: item.item.extractionSource,
+      valuation_source: item.valuation.outputSource,
+      advice_source: item.resale.outputSource,
+      brand: item.item.brand,
+      model_number: item.item.modelNumber,
+      upc: item.item.upc,
+      quantity: item.item.quantity,
+      unit_description: item.item.unitDescription,
+      red_flags: item.item.redFlags,
+    };
+  });
+
+  // Insert into database
+  const { data, error } = await supabase
+    .from('analyzed_auctions')
+    .insert(auctionRecords)
+    .select('id, auction_url');
+
+  if (error) {
+    console.error('Failed to log auctions to database:', error);
+  } else {
+    console.log(`Logged ${auctionRecords.length} auctions to database`);
+    await saveBidHistory(data || [], items.map(item => item.item));
+  }
+}
+
+export interface BatchAnalysisParams extends AnalysisSettings {
+  raw_items: RawKBidItem[]; // Items to analyze (from scrape-items endpoint)
+}
+
+function toProfitParams(params: AnalysisSettings): AnalysisParams {
+  return {
+    profit_min_dollars: params.profit_min_dollars,
+    profit_min_percent: params.profit_min_percent,
+    selling_fee_percent: params.selling_fee_percent,
+    travel_cost_per_mile: params.travel_cost_per_mile,
+    travel_time_value_per_hour: params.travel_time_value_per_hour,
+    max_items: 0,
+    start_date: '',
+    end_date: ''
+  };
+}
+
+// Item must be profitable AND current bid must be at or below max bid
+function meetsProfitCriteria(item: ParsedItem, profit: ProfitAnalysis, params: AnalysisSettings): boolean {
+  return profit.expectedProfit >= params.profit_min_dollars &&
+         profit.expectedROI >= params.profit_min_percent &&
+         item.currentBid <= profit.maxBid;
+}
+
+// Lots from the same auction share one pickup trip. The lots the user would
+// go after are the ones that qualify before travel; each of those is re-priced
+// with an equal share of the trip instead of carrying all of it.
+export function shareTripCosts(items: AnalyzedItem[], params: AnalysisSettings): AnalyzedItem[] {
+  const profitParams = toProfitParams(params);
+  const tripLots = new Map<string, number>();
+  const sharing = new Set<AnalyzedItem>();
+
+  for (const analyzed of items) {
+    const { item, valuation } = analyzed;
+    if (!item.auctionId || !item.distanceMiles || valuation.estimatedValue === 0) continue;
+
+    const withoutTravel = calculateProfit(item, valuation, profitParams, 0);
+    if (meetsProfitCriteria(item, withoutTravel, params)) {
+      tripLots.set(item.auctionId, (tripLots.get(item.auctionId) || 0) + 1);
+      sharing.add(analyzed);
+    }
+  }
+
+  return items.map(analyzed => {
+    const lots = analyzed.item.auctionId ? tripLots.get(analyzed.item.auctionId) || 0 : 0;
+    if (!sharing.has(analyzed) || lots <= 1) return analyzed;
+
+    const profit = calculateProfit(analyzed.item, analyzed.valuation, profitParams, lots);
+    return { ...analyzed, profit, meetsCriteria: meetsProfitCriteria(analyzed.item, profit, params) };
+  });
+}
+
+// Why an extracted lot is left out of the analysis, if it is: excluded by the
+// model or by the user's rules, or outside this search's categories
+export function ineligibleReason(item: ParsedItem, settings: AnalysisSettings): string | undefined {
+  if (item.excluded) {
+    return item.excludeReason || 'Excluded';
+  }
+  const ruleReason = exclusionReason(item, resolveExclusionRules(settings.exclusion_rules));
+  if (ruleReason) {
+    return ruleReason;
+  }
+  const selectedCategories = settings.selected_categories;
+  if (selectedCategories && selectedCategories.length > 0 && selectedCategories.length < CATEGORY_OPTIONS.length &&
+      !selectedCategories.includes(mapToFilterCategory(item.category))) {
+    return 'Outside selected categories';
+  }
+  return undefined;
+}
+
+// Profit and resale advice for a valued lot
+export async function priceItem(
+  item: ParsedItem,
+  valuation: ValuationResult,
+  params: AnalysisSettings,
+  options: {
+    signal?: AbortSignal;
+    onAdvice?: () => void;  // Called as the resale advice request starts
+  } = {}
+): Promise<AnalyzedItem> {
+  // If no valuation, create a placeholder
+  if (valuation.estimatedValue === 0) {
+    return {
+      item,
+      valuation,
+      profit: {
+        maxBid: 0,
+        expectedProfit: 0,
+        expectedROI: 0,
+        actualProfit: 0,
+        actualROI: 0,
+        breakEvenPrice: 0,
+        shippingEstimate: 0,
+        fees: 0,
+        acquisitionFees: 0,
+        travelCost: 0,
+        amortizedTravelCost: 0
+      },
+      resale: {
+        recommendedChannel: 'Unknown',
+        riskScore: 'high',
+        riskReasoning: 'Could not determine market value',
+        tips: [],
+        outputSource: 'fallback'
+      },
+      meetsCriteria: false
+    };
+  }
+
+  // Priced as if this lot makes the pickup trip alone; shareTripCosts
+  // spreads the trip once the whole batch is valued
+  const profit = calculateProfit(item, valuation, toProfitParams(params));
+
+  // Check if meets profit criteria
+  const meetsCriteria = meetsProfitCriteria(item, profit, params);
+
+  options.onAdvice?.();
+  const resale = await getResaleAdvice(item, valuation, options.signal);
+
+  return { item, valuation, profit, resale, meetsCriteria };
+}
+
+// A lot whose earlier analysis is reused: only the profit depends on the new bid
+export function repriceItem(recent: RecentAnalysis, params: AnalysisSettings): AnalyzedItem {
+  const { item, valuation, resale } = recent;
+  const profit = calculateProfit(item, valuation, toProfitParams(params));
+  return {
+    item,
+    valuation,
+    profit,
+    resale,
+    meetsCriteria: meetsProfitCriteria(item, profit, params),
+    reusedValuationAt: recent.valuedAt
+  };
+}
+
+async function processItem(
+  item: ParsedItem,
+  params: BatchAnalysisParams,
+  failures: ItemFailure[],
+  signal?: AbortSignal
+): Promise<AnalyzedItem | null> {
+  let stage: ItemFailure['stage'] = 'valuing';
+  try {
+    const valuation = await getValuation(item, signal);
+    stage = 'pricing';
+    return await priceItem(item, valuation, params, { signal });
+  } catch (error) {
+    const failure = toAnalysisError(error, signal);
+    console.error('Error processing item:', item.title, failure.message);
+    failures.push(itemFailure(item, stage, failure));
+    return null;
+  }
+}
+
+async function processWithConcurrency<T, R>(
+  items: T[],
+  processor: (item: T) => Promise<R | null>,
+  concurrency: number
+): Promise<R[]> {
+  const results: R[] = [];
+  let index = 0;
+
+  async function worker() {
+    while (index < items.length) {
+      const currentIndex = index++;
+      const result = await processor(items[currentIndex]);
+      if (result !== null) {
+        results.push(result);
+      }
+    }
+  }
+
+  const workers = Array(Math.min(concurrency, items.length))
+    .fill(null)
+    .map(() => worker());
+
+  await Promise.all(workers);
+  return results;
+}
+
+export type BatchAnalysisResult = Omit<AnalysisResponse, 'success'>;
+
+// Extract, value and price one batch of scraped lots. Used by /api/run-analysis
+// for the interactive flow and by the scheduled scan; callers log the results.
+// Stops early with an error if `signal` is aborted.
+export async function analyzeBatch(params: BatchAnalysisParams, signal?: AbortSignal): Promise<BatchAnalysisResult> {
+  const rawItems = params.raw_items;
+  const failures: ItemFailure[] = [];
+  console.log(`Analyzing batch of ${rawItems.length} items...`);
+
+  // Lots analyzed recently are only re-priced; the rest go through the AI
+  const recent = await findRecentAnalyses(rawItems);
+  const reused: RecentAnalysis[] = [];
+  const toExtract: RawKBidItem[] = [];
+  for (const rawItem of rawItems) {
+    const analysis = reuseAnalysis(rawItem, recent);
+    if (analysis) reused.push(analysis);
+    else toExtract.push(rawItem);
+  }
+  const repricedItems = reused
+    .filter(analysis => !ineligibleReason(analysis.item, params))
+    .map(analysis => repriceItem(analysis, params));
+
+  // Step 1: Extract item details with AI
+  console.log('Extracting item details...');
+  const parsedItems = await extractItemDetails(toExtract, {
+    signal,
+    rules: resolveExclusionRules(params.exclusion_rules),
+    onFailure: (item, error) => failures.push(itemFailure(item, 'extracting', error))
+  });
+  console.log(`Parsed ${parsedItems.length} items`);
+
+  // Filter out excluded items and those outside the selected categories
+  const eligibleItems = parsedItems.filter(item => !ineligibleReason(item, params));
+  console.log(`${eligibleItems.length} eligible items after filtering exclusions and categories`);
+
+  if (eligibleItems.length === 0 && repricedItems.length === 0) {
+    return {
+      items: [],
+      summary: {
+        totalScraped: rawItems.length,
+        totalAnalyzed: failures.length,
+        totalProfitable: 0,
+        errors: failures.length,
+        extractionCache: extractionCacheStats(parsedItems)
+      },
+      failures,
+      error: 'No eligible items found after filtering'
+    };
+  }
+
+  // Step 2: Process items (valuation + profit + advice)
+  console.log('Processing items...');
+  const processedItems = await processWithConcurrency(
+    eligibleItems,
+    (item) => processItem(item, params, failures, signal),
+    3
+  );
+  signal?.throwIfAborted();
+  const analyzedItems = shareTripCosts([...repricedItems, ...processedItems], params);
+
+  // Sort by expected profit descending (profitable items first)
+  analyzedItems.sort((a, b) => b.profit.expectedProfit - a.profit.expectedProfit);
+
+  return {
+    items: analyzedItems,
+    summary: {
+      totalScraped: rawItems.length,
+      // Items that failed extraction never became eligible, but were still attempted
+      totalAnalyzed: repricedItems.length + eligibleItems.length + failures.filter(failure => failure.stage === 'extracting').length,
+      totalProfitable: analyzedItems.filter(item => item.meetsCriteria).length,
+      errors: failures.length,
+      extractionCache: extractionCacheStats(parsedItems)
+    },
+    failures
+  };
+}
@@ -0,0 +1,86 @@
+import { BidHistoryInsert } from '@/lib/supabase';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { BidHistoryEntry, BidVelocity, ParsedItem } from '@/lib/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Bid pace from a lot's history. Windows are measured back from asOf,
+// capped at the lot's close so a finished lot shows its closing activity.
+export function calculateBidVelocity(history: BidHistoryEntry[], closesAt?: string, now = new Date()): BidVelocity {
+  const closeTime = closesAt ? new Date(closesAt).getTime() : NaN;
+  const asOf = Number.isNaN(closeTime) ? now.getTime() : Math.min(now.getTime(), closeTime);
+
+  const times = history
+    .map(bid => new Date(bid.placedAt).getTime())
+    .filter(time => !Number.isNaN(time))
+    .sort((a, b) => a - b);
+  const bidders = new Set(history.map(bid => bid.bidder).filter(Boolean));
+
+  const first = times[0];
+  const last = times[times.length - 1];
+  // A single bid (or a burst within the same minute) has no real span; treat it as an hour
+  const spanHours = times.length > 1 ? Math.max((last - first) / HOUR_MS, 1) : 1;
+
+  return {
+    totalBids: times.length,
+    uniqueBidders: bidders.size,
+    bidsLastHour: times.filter(time => asOf - time <= HOUR_MS).length,
+    bidsLast24h: times.filter(time => asOf - time <= 24 * HOUR_MS).length,
+    bidsPerHour: times.length > 0 ? Math.round((times.length / spanHours) * 100) / 100 : 0,
+    lastBidAt: last !== undefined ? new Date(last).toISOString() : undefined
+  };
+}
+
+// Interest level from bid pace: recent back-and-forth beats a lot that
+// collected the same number of bids slowly over a week
+export function velocityInterestLevel(velocity: BidVelocity): 'low' | 'medium' | 'high' {
+  if (velocity.bidsLastHour >= 3) return 'high';
+  if (velocity.bidsLast24h >= 4 && velocity.uniqueBidders >= 2) return 'high';
+
+  if (velocity.bidsLast24h >= 2 || velocity.bidsPerHour >= 0.25) return 'medium';
+
+  return 'low';
+}
+
+// Store the bid history of freshly logged lots, linked to their
+// analyzed_auctions rows by auction URL
+export async function saveBidHistory(
+  logged: { id: string; auction_url: string }[],
+  items: ParsedItem[]
+): Promise<void> {
+  const historyByUrl = new Map(
+    items.filter(item => item.bidHistory?.length).map(item => [item.auctionUrl, item.bidHistory!])
+  );
+
+  const records: BidHistoryInsert[] = logged.flatMap(row =>
+    (historyByUrl.get(row.auction_url) || []).map(bid => ({
+      analyzed_auction_id: row.id,
+      auction_url: row.auction_url,
+      amount: bid.amount,
+      placed_at: bid.placedAt,
+      bidder: bid.bidder
+    }))
+  );
+  if (records.length === 0) return;
+
+  // bid_history is closed to the anon key; without the service role there's nowhere to keep it
+  const db = getSupabaseAdmin();
+  if (!db) {
+    console.warn('SUPABASE_SERVICE_ROLE_KEY is not configured; bid history not saved');
+    return;
+  }
+
+  // Re-logging a lot re-sends bids already stored; skip those
+  const { error } = await db
+    .from('bid_history')
+    .upsert(records, {
+      onConflict: 'analyzed_auction_id,placed_at,amount',
+      ignoreDuplicates: true
+    });
+
+  if (error) {
+    console.error('Failed to save bid history:', error);
+  } else {
+    console.log(`Saved ${records.length} bids to bid history`);
+  }
+}
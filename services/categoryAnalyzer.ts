@@ -1,7 +1,16 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { supabase } from '@/lib/supabase';
-
-const anthropic = new Anthropic();
+import { OutputSource } from '@/lib/types';
+import * as schema from '@/lib/schema';
+import { requestStructured } from './structuredOutput';
+
+const analysisSchema = schema.object({
+  summary: schema.string({ nonEmpty: true }),
+  whyHotOrCold: schema.string({ nonEmpty: true }),
+  bestItemTypes: schema.array(schema.string({ nonEmpty: true }), { min: 1 }),
+  timingAdvice: schema.string({ nonEmpty: true }),
+  riskFactors: schema.array(schema.string({ nonEmpty: true }), { min: 1 }),
+  recommendation: schema.string({ nonEmpty: true })
+});
 
 export interface CategoryDeepDive {
   category: string;
@@ -11,6 +20,7 @@ export interface CategoryDeepDive {
   timingAdvice: string;
   riskFactors: string[];
   recommendation: string;
+  source: OutputSource;      // 'fallback' when there wasn't enough data or the AI analysis failed
   stats: {
     totalAnalyzed: number;
     profitableCount: number;
@@ -55,6 +65,7 @@ export async function getCategoryDeepDive(category: string): Promise<CategoryDee
       timingAdvice: 'Collect more data to identify optimal timing.',
       riskFactors: ['Limited data - predictions may be inaccurate'],
       recommendation: 'Continue monitoring this category to build insights.',
+      source: 'fallback',
       stats,
     };
   }
@@ -91,12 +102,7 @@ async function generateCategoryAnalysis(
       `- "${a.title}" - Bid: $${a.current_bid}, Value: $${a.estimated_value}, ${a.is_profitable ? `Profit: $${a.actual_profit}` : a.is_overbid ? `Overpaid ${a.overpay_percent?.toFixed(0)}%` : 'Neutral'}`
     ).join('\n');
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1500,
-      messages: [{
-        role: 'user',
-        content: `Provide a deep-dive analysis for the "${category}" category on K-BID auctions.
+    const prompt = `Provide a deep-dive analysis for the "${category}" category on K-BID auctions.
 
 CATEGORY STATS:
 - Total analyzed: ${stats.totalAnalyzed}
@@ -117,21 +123,10 @@ Return ONLY valid JSON:
   "timingAdvice": "When to bid and when to avoid",
   "riskFactors": ["risk 1", "risk 2", "risk 3"],
   "recommendation": "Clear actionable advice for a reseller"
-}`
-      }]
-    });
-
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type');
-    }
-
-    let jsonStr = content.text.trim();
-    if (jsonStr.startsWith('```')) {
-      jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '');
-    }
+}`;
 
-    return JSON.parse(jsonStr);
+    const { value, source } = await requestStructured(analysisSchema, prompt, { label: 'category analysis', maxTokens: 1500 });
+    return { ...value, source };
 
   } catch (error) {
     console.error('Category analysis error:', error);
@@ -142,6 +137,7 @@ Return ONLY valid JSON:
       timingAdvice: 'Monitor the category for patterns.',
       riskFactors: ['Analysis currently unavailable', 'Use manual research'],
       recommendation: 'Proceed with caution and verify valuations independently.',
+      source: 'fallback',
     };
   }
 }
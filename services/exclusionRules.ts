@@ -0,0 +1,76 @@
+import { ExclusionRules, ParsedItem } from '@/lib/types';
+import { DEFAULT_EXCLUSION_RULES, mapToFilterCategory } from '@/lib/config';
+import { mentions } from './savedSearches';
+
+const SIZE_ORDER: ParsedItem['sizeClass'][] = ['small', 'medium', 'large', 'oversized'];
+
+function stringList(value: unknown, fallback: string[]): string[] {
+  if (!Array.isArray(value)) return fallback;
+  return value.filter((entry): entry is string => typeof entry === 'string' && entry.trim() !== '');
+}
+
+// Rules as sent with a request or stored with a run. Without any, the
+// defaults apply; a malformed field falls back to its default.
+export function resolveExclusionRules(rules?: Partial<ExclusionRules> | null): ExclusionRules {
+  if (!rules) return DEFAULT_EXCLUSION_RULES;
+  return {
+    categories_allowed: stringList(rules.categories_allowed, []),
+    excluded_categories: stringList(rules.excluded_categories, DEFAULT_EXCLUSION_RULES.excluded_categories),
+    excluded_keywords: stringList(rules.excluded_keywords, []),
+    max_size_class: rules.max_size_class && SIZE_ORDER.includes(rules.max_size_class) ? rules.max_size_class : null,
+    shipping_required: rules.shipping_required === true
+  };
+}
+
+// The exclusion part of the extraction prompt, written from the same rules
+// exclusionReason checks afterwards
+export function exclusionPromptRules(rules: ExclusionRules): string {
+  const cases = [
+    'Firearms and ammunition',
+    'Items impossible to resell online'
+  ];
+  if (rules.excluded_categories.length > 0) {
+    cases.push(`Anything in these categories: ${rules.excluded_categories.join('; ')}`);
+  }
+  if (rules.categories_allowed.length > 0) {
+    cases.push(`Anything outside these categories: ${rules.categories_allowed.join('; ')}`);
+  }
+  if (rules.excluded_keywords.length > 0) {
+    cases.push(`Lots that are, or mostly consist of: ${rules.excluded_keywords.join(', ')}`);
+  }
+  if (rules.max_size_class) {
+    cases.push(`Anything larger than sizeClass "${rules.max_size_class}"`);
+  }
+  if (rules.shipping_required) {
+    cases.push('Pickup-only lots (shippingAvailable false)');
+  }
+
+  return `- excluded: Set true for:
+${cases.map(text => `  * ${text}`).join('\n')}
+- excludeReason: If excluded, explain why`;
+}
+
+// Why the rules leave an extracted lot out, if they do
+export function exclusionReason(item: ParsedItem, rules: ExclusionRules): string | undefined {
+  const category = mapToFilterCategory(item.category);
+  if (rules.categories_allowed.length > 0 && !rules.categories_allowed.includes(category)) {
+    return 'Category not allowed for this account';
+  }
+  if (rules.excluded_categories.includes(category)) {
+    return `Excluded category (${category})`;
+  }
+
+  const text = [item.title, item.description, item.unitDescription, item.lotDescription].filter(Boolean).join(' ');
+  const keyword = rules.excluded_keywords.find(word => word.trim() && mentions(text, word));
+  if (keyword) {
+    return `Excluded keyword "${keyword.trim()}"`;
+  }
+
+  if (rules.max_size_class && SIZE_ORDER.indexOf(item.sizeClass) > SIZE_ORDER.indexOf(rules.max_size_class)) {
+    return `Larger than ${rules.max_size_class}`;
+  }
+  if (rules.shipping_required && !item.shippingAvailable) {
+    return 'Pickup only';
+  }
+  return undefined;
+}
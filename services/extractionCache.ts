@@ -0,0 +1,64 @@
+import { ExtractionCacheRecord } from '@/lib/supabase';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+
+// Storage for cached extractions. A failed lookup or save only costs a Claude
+// call, so errors are logged and treated as a miss. The table is closed to the
+// anon key, so without the service role every lookup is a miss.
+
+export type CachedExtraction = ExtractionCacheRecord['fields'];
+
+// Hashes per query, keeps the request URL short
+const LOOKUP_CHUNK_SIZE = 50;
+
+export async function getCachedExtraction(contentHash: string): Promise<CachedExtraction | null> {
+  const db = getSupabaseAdmin();
+  if (!db) return null;
+
+  const { data, error } = await db
+    .from('extraction_cache')
+    .select('fields')
+    .eq('content_hash', contentHash)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to read extraction cache:', error);
+    return null;
+  }
+  return data?.fields ?? null;
+}
+
+// Several lookups at once, keyed by content hash; misses are simply absent
+export async function getCachedExtractions(contentHashes: string[]): Promise<Map<string, CachedExtraction>> {
+  const found = new Map<string, CachedExtraction>();
+  const db = getSupabaseAdmin();
+  if (!db) return found;
+
+  for (let i = 0; i < contentHashes.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await db
+      .from('extraction_cache')
+      .select('content_hash, fields')
+      .in('content_hash', contentHashes.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+    if (error) {
+      console.error('Failed to read extraction cache:', error);
+      return found;
+    }
+    for (const record of data || []) {
+      found.set(record.content_hash, record.fields);
+    }
+  }
+  return found;
+}
+
+export async function saveCachedExtraction(contentHash: string, fields: CachedExtraction): Promise<void> {
+  const db = getSupabaseAdmin();
+  if (!db) return;
+
+  const { error } = await db
+    .from('extraction_cache')
+    .upsert({ content_hash: contentHash, fields }, { onConflict: 'content_hash' });
+
+  if (error) {
+    console.error('Failed to save extraction cache:', error);
+  }
+}
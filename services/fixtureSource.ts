@@ -0,0 +1,176 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AuctionListing, AuctionTerms, LotStatus, RawKBidItem } from '@/lib/types';
+import { FIXTURE_SOURCE_CONFIG } from '@/lib/config';
+import { resolveAuctionTerms } from '@/services/auctionTerms';
+import type { AuctionSource } from '@/services/auctionSource';
+
+// Auctions read from a JSON file instead of a live site, for working offline
+// and for exercising the pipeline without hitting K-Bid.
+//
+// Timestamps in the file are written as of `capturedAt` and shifted forward
+// by however long ago that was, so the fixture's auctions are always open.
+
+interface FixtureLot extends RawKBidItem {
+  isClosed?: boolean;
+  // Fields only returned by fetchLot, like a lot's detail page
+  detail?: Partial<RawKBidItem>;
+}
+
+interface FixtureAuction extends AuctionListing {
+  id: string;
+  terms?: Partial<AuctionTerms>;
+  lots: FixtureLot[];
+}
+
+interface FixtureFile {
+  capturedAt: string;
+  auctions: FixtureAuction[];
+}
+
+const FIXTURE_URL_PREFIX = 'fixture://';
+const FIXTURE_SEARCH_PREFIX = `${FIXTURE_URL_PREFIX}search?q=`;
+
+let fixturePromise: Promise<FixtureFile> | null = null;
+
+function shiftTime(iso: string | undefined, offsetMs: number): string | undefined {
+  return iso ? new Date(new Date(iso).getTime() + offsetMs).toISOString() : undefined;
+}
+
+function shiftLot<T extends Partial<RawKBidItem>>(lot: T, offsetMs: number): T {
+  const shifted = { ...lot };
+  if (lot.closesAt) {
+    shifted.closesAt = shiftTime(lot.closesAt, offsetMs);
+  }
+  if (lot.bidHistory) {
+    shifted.bidHistory = lot.bidHistory.map(bid => ({ ...bid, placedAt: shiftTime(bid.placedAt, offsetMs)! }));
+  }
+  return shifted;
+}
+
+async function readFixture(): Promise<FixtureFile> {
+  const file = path.resolve(process.cwd(), FIXTURE_SOURCE_CONFIG.path);
+  const data = JSON.parse(await fs.readFile(file, 'utf8')) as FixtureFile;
+  const offsetMs = Date.now() - new Date(data.capturedAt).getTime();
+
+  return {
+    ...data,
+    auctions: data.auctions.map(auction => ({
+      ...auction,
+      endsAt: shiftTime(auction.endsAt || undefined, offsetMs) || null,
+      lots: auction.lots.map(lot => ({
+        ...shiftLot(lot, offsetMs),
+        detail: lot.detail && shiftLot(lot.detail, offsetMs)
+      }))
+    }))
+  };
+}
+
+// Read once per process; a failed read is retried next call
+function loadFixture(): Promise<FixtureFile> {
+  if (!fixturePromise) {
+    fixturePromise = readFixture().catch(error => {
+      fixturePromise = null;
+      throw error;
+    });
+  }
+  return fixturePromise;
+}
+
+async function findAuction(url: string): Promise<FixtureAuction> {
+  const { auctions } = await loadFixture();
+  const auction = auctions.find(a => a.url === url);
+  if (!auction) {
+    throw new Error(`No fixture auction ${url} in ${FIXTURE_SOURCE_CONFIG.path}`);
+  }
+  return auction;
+}
+
+async function findLot(url: string): Promise<{ lot: FixtureLot; auction: FixtureAuction } | undefined> {
+  const { auctions } = await loadFixture();
+  for (const auction of auctions) {
+    const lot = auction.lots.find(l => l.url === url);
+    if (lot) return { lot, auction };
+  }
+  return undefined;
+}
+
+function isSearchUrl(url: string): boolean {
+  return url.startsWith(FIXTURE_SEARCH_PREFIX);
+}
+
+// The lot as it appears on the auction page: no detail fields, closed lots dropped
+function openLots(auction: FixtureAuction): RawKBidItem[] {
+  const terms = auction.terms ? resolveAuctionTerms(auction.terms) : undefined;
+
+  return auction.lots
+    .filter(lot => !lot.isClosed)
+    .map(({ isClosed: _isClosed, detail: _detail, ...lot }) => ({
+      ...lot,
+      auctionId: lot.auctionId || auction.id,
+      auctionEndDate: lot.auctionEndDate || auction.endsAt || undefined,
+      closesAt: lot.closesAt || auction.endsAt || undefined,
+      auctionTerms: lot.auctionTerms || terms,
+      pickupLocation: lot.pickupLocation || auction.pickup
+    }));
+}
+
+export const fixtureSource: AuctionSource = {
+  id: 'fixture',
+  name: 'Fixture file',
+
+  handlesUrl(url) {
+    return url.startsWith(FIXTURE_URL_PREFIX);
+  },
+
+  isSearchUrl,
+
+  searchUrl(keyword) {
+    return `${FIXTURE_SEARCH_PREFIX}${encodeURIComponent(keyword)}`;
+  },
+
+  async listAuctions() {
+    const { auctions } = await loadFixture();
+    return auctions.map(({ url, title, endsAt, pickup }) => ({ url, title, endsAt, pickup }));
+  },
+
+  async listLots(auction) {
+    return openLots(await findAuction(auction.url));
+  },
+
+  async lotsFromUrl(url, maxItems, signal) {
+    signal?.throwIfAborted();
+    let lots: RawKBidItem[];
+    if (isSearchUrl(url)) {
+      // Every open lot whose title or text contains the phrase
+      const phrase = decodeURIComponent(url.slice(FIXTURE_SEARCH_PREFIX.length)).toLowerCase();
+      const { auctions } = await loadFixture();
+      lots = auctions.flatMap(openLots)
+        .filter(lot => `${lot.title || ''} ${lot.text}`.toLowerCase().includes(phrase));
+    } else {
+      lots = openLots(await findAuction(url));
+    }
+    return maxItems > 0 ? lots.slice(0, maxItems) : lots;
+  },
+
+  async fetchLot(item) {
+    const found = await findLot(item.url);
+    return found?.lot.detail ? { ...item, ...found.lot.detail } : item;
+  },
+
+  async refreshBid(lotUrl): Promise<LotStatus> {
+    const found = await findLot(lotUrl);
+    if (!found) {
+      return { currentBid: null, isClosed: false, closesAt: null, isExtended: false };
+    }
+
+    const { lot, auction } = found;
+    const closesAt = lot.detail?.closesAt || lot.closesAt || auction.endsAt;
+    return {
+      currentBid: lot.detail?.currentBid ?? lot.currentBid ?? null,
+      isClosed: !!lot.isClosed || (!!closesAt && new Date(closesAt) < new Date()),
+      closesAt,
+      isExtended: !!(lot.detail?.isExtended || lot.isExtended)
+    };
+  }
+};
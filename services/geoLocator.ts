@@ -0,0 +1,116 @@
+import { supabase } from '@/lib/supabase';
+import { PickupLocation, Territory } from '@/lib/types';
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+interface ZipRow {
+  zip: string;
+  city: string | null;
+  state: string | null;
+  lat: number | string;
+  lng: number | string;
+}
+
+const EARTH_RADIUS_MILES = 3959;
+
+// Lookups are cached for the life of the server process
+const zipCache = new Map<string, Coordinates | null>();
+const cityCache = new Map<string, Coordinates | null>();
+
+function cityKey(city: string, state: string): string {
+  return `${city.trim().toLowerCase()}|${state.trim().toUpperCase()}`;
+}
+
+function toCoordinates(row: ZipRow): Coordinates {
+  return { lat: Number(row.lat), lng: Number(row.lng) };
+}
+
+// Haversine distance, same formula as calculate_distance_miles() in the schema
+export function distanceMiles(a: Coordinates, b: Coordinates): number {
+  const toRadians = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_MILES * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+async function lookupZip(zip: string): Promise<Coordinates | null> {
+  if (zipCache.has(zip)) return zipCache.get(zip) || null;
+
+  const { data, error } = await supabase
+    .from('zip_coordinates')
+    .select('*')
+    .eq('zip', zip)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to look up zip ${zip}:`, error);
+    return null;
+  }
+
+  const coords = data ? toCoordinates(data as ZipRow) : null;
+  zipCache.set(zip, coords);
+  return coords;
+}
+
+// Cities span several zips - use the first one on record
+async function lookupCity(city: string, state: string): Promise<Coordinates | null> {
+  const key = cityKey(city, state);
+  if (cityCache.has(key)) return cityCache.get(key) || null;
+
+  const { data, error } = await supabase
+    .from('zip_coordinates')
+    .select('*')
+    .ilike('city', city.trim())
+    .eq('state', state.trim().toUpperCase())
+    .limit(1);
+
+  if (error) {
+    console.error(`Failed to look up ${city}, ${state}:`, error);
+    return null;
+  }
+
+  const row = (data || [])[0] as ZipRow | undefined;
+  const coords = row ? toCoordinates(row) : null;
+  cityCache.set(key, coords);
+  return coords;
+}
+
+// Geocode a pickup location, preferring the zip when one was listed
+export async function geocodePickup(location: PickupLocation): Promise<Coordinates | null> {
+  if (location.zip) {
+    const coords = await lookupZip(location.zip);
+    if (coords) return coords;
+  }
+  if (location.city && location.state) {
+    return lookupCity(location.city, location.state);
+  }
+  return null;
+}
+
+// Territory center, geocoding the zip if the profile has no lat/lng stored
+export async function resolveTerritoryCenter(territory: Territory): Promise<Coordinates | null> {
+  if (territory.lat != null && territory.lng != null) {
+    return { lat: territory.lat, lng: territory.lng };
+  }
+  if (territory.zip) {
+    return lookupZip(territory.zip);
+  }
+  return null;
+}
+
+// Distance from the territory center to a pickup location, or undefined if
+// either side can't be placed on the map
+export async function pickupDistance(
+  center: Coordinates,
+  location: PickupLocation | undefined
+): Promise<number | undefined> {
+  if (!location) return undefined;
+  const coords = await geocodePickup(location);
+  if (!coords) return undefined;
+  return Math.round(distanceMiles(center, coords));
+}
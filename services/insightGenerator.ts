@@ -1,7 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { supabase, MarketInsight } from '@/lib/supabase';
-
-const anthropic = new Anthropic();
+import * as schema from '@/lib/schema';
+import { requestStructured } from './structuredOutput';
 
 interface MarketData {
   totalAnalyzed: number;
@@ -23,14 +22,17 @@ interface MarketData {
   }[];
 }
 
-interface GeneratedInsight {
-  title: string;
-  description: string;
-  insight_type: 'trend' | 'alert' | 'recommendation' | 'pattern';
-  severity: 'info' | 'warning' | 'opportunity' | 'critical';
-  category?: string;
-  confidence: number;
-}
+const insightsSchema = schema.array(
+  schema.object({
+    title: schema.string({ nonEmpty: true }),
+    description: schema.string({ nonEmpty: true }),
+    insight_type: schema.oneOf(['trend', 'alert', 'recommendation', 'pattern'] as const),
+    severity: schema.oneOf(['info', 'warning', 'opportunity', 'critical'] as const),
+    category: schema.optional(schema.string()),
+    confidence: schema.number({ min: 0, max: 1 })
+  }),
+  { min: 1, max: 5 }
+);
 
 export async function generateMarketInsights(forceRefresh = false): Promise<MarketInsight[]> {
   // Check cache first (unless force refresh)
@@ -52,6 +54,7 @@ export async function generateMarketInsights(forceRefresh = false): Promise<Mark
       title: 'Building Market Intelligence',
       description: 'Continue analyzing auctions to generate AI-powered insights. We need at least 5 analyzed items.',
       severity: 'info',
+      source: 'fallback',
       is_active: true,
     }];
   }
@@ -158,12 +161,7 @@ function groupByCategory(items: { category: string }[]): Record<string, typeof i
 
 async function callAIForInsights(data: MarketData): Promise<MarketInsight[]> {
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2048,
-      messages: [{
-        role: 'user',
-        content: `Analyze this K-BID auction market data and provide 3-5 actionable insights for a reseller.
+    const prompt = `Analyze this K-BID auction market data and provide 3-5 actionable insights for a reseller.
 
 MARKET OVERVIEW:
 - Total auctions analyzed: ${data.totalAnalyzed}
@@ -198,21 +196,9 @@ Focus on:
 - Categories to avoid
 - Timing/seasonal patterns
 - Pricing strategies
-- Risk alerts`
-      }]
-    });
-
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type');
-    }
-
-    let jsonStr = content.text.trim();
-    if (jsonStr.startsWith('```')) {
-      jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '');
-    }
+- Risk alerts`;
 
-    const parsed: GeneratedInsight[] = JSON.parse(jsonStr);
+    const { value: parsed, source } = await requestStructured(insightsSchema, prompt, { label: 'market insights', maxTokens: 2048 });
     const now = new Date().toISOString();
 
     return parsed.map((insight, index) => ({
@@ -224,6 +210,7 @@ Focus on:
       severity: insight.severity,
       category: insight.category,
       confidence: insight.confidence,
+      source,
       is_active: true,
     }));
 
@@ -236,6 +223,7 @@ Focus on:
       title: 'Analysis in Progress',
       description: 'Unable to generate insights at this time. Please try again later.',
       severity: 'info',
+      source: 'fallback',
       is_active: true,
     }];
   }
@@ -258,6 +246,7 @@ async function storeInsights(insights: MarketInsight[]): Promise<void> {
       severity: i.severity,
       category: i.category,
       confidence: i.confidence,
+      source: i.source,
       is_active: true,
     }));
 
@@ -0,0 +1,185 @@
+import { HTTP_CONFIG, SCRAPE_CONFIG } from '@/lib/config';
+import { isRecording, isReplaying, loadSnapshot, saveSnapshot } from '@/services/snapshotArchive';
+
+// One HTTP client for all K-Bid page traffic: per-host rate limiting, backoff
+// on 429 and gateway errors, ETag/Last-Modified revalidation and a short-lived page cache.
+// Pages are archived in record mode and served from the archive in replay mode.
+
+export interface FetchHtmlOptions {
+  // How old a cached page may be before it's revalidated (0 = always ask the server)
+  maxAge?: number;
+  // Cancels the request in flight and any wait for a rate-limit token or retry
+  signal?: AbortSignal;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface CachedPage {
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+}
+
+const buckets = new Map<string, TokenBucket>();
+const pageCache = new Map<string, CachedPage>();
+
+// Wait ms, or reject as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Take a token from the host's bucket, waiting for one if it's empty.
+// Tokens are reserved up front so concurrent callers queue behind each other.
+async function acquireToken(host: string, signal?: AbortSignal): Promise<void> {
+  const now = Date.now();
+  const bucket = buckets.get(host) || { tokens: HTTP_CONFIG.burst, updatedAt: now };
+
+  const refill = ((now - bucket.updatedAt) / 1000) * HTTP_CONFIG.requestsPerSecond;
+  bucket.tokens = Math.min(HTTP_CONFIG.burst, bucket.tokens + refill) - 1;
+  bucket.updatedAt = now;
+  buckets.set(host, bucket);
+
+  if (bucket.tokens < 0) {
+    await sleep((-bucket.tokens / HTTP_CONFIG.requestsPerSecond) * 1000, signal);
+  }
+}
+
+// Retry-After is either seconds or an HTTP date
+function retryAfterMs(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number, retryAfter: string | null): number {
+  const requested = retryAfterMs(retryAfter);
+  if (requested !== null) return Math.min(requested, HTTP_CONFIG.maxBackoff);
+  // Exponential with jitter so parallel workers don't retry in lockstep
+  const base = SCRAPE_CONFIG.retryDelay * 2 ** attempt;
+  return Math.min(base + Math.random() * SCRAPE_CONFIG.retryDelay, HTTP_CONFIG.maxBackoff);
+}
+
+// Rate limiting and overloaded or restarting servers pass; other errors
+// (404, 500, 501, ...) will come back the same on a retry
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+function remember(url: string, page: CachedPage) {
+  // Re-insert so Map order tracks recency, then drop the oldest
+  pageCache.delete(url);
+  pageCache.set(url, page);
+  while (pageCache.size > HTTP_CONFIG.cacheMaxEntries) {
+    const oldest = pageCache.keys().next().value;
+    if (oldest === undefined) break;
+    pageCache.delete(oldest);
+  }
+}
+
+// Fetch a K-Bid page as text
+export async function fetchHtml(url: string, options: FetchHtmlOptions = {}): Promise<string> {
+  if (isReplaying()) {
+    const archived = await loadSnapshot(url);
+    if (archived === null) {
+      throw new Error(`No archived snapshot for ${url}`);
+    }
+    return archived;
+  }
+
+  const maxAge = options.maxAge ?? HTTP_CONFIG.cacheTtl;
+  const cached = pageCache.get(url);
+  if (cached && Date.now() - cached.fetchedAt < maxAge) {
+    return cached.body;
+  }
+
+  const host = new URL(url).host;
+  const { signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken(host, signal);
+
+    const headers: Record<string, string> = {
+      'User-Agent': HTTP_CONFIG.userAgent,
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.5',
+    };
+    // Conditional only when there's a cached body to fall back on
+    if (cached) {
+      if (cached.etag) headers['If-None-Match'] = cached.etag;
+      if (cached.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    let response: Response;
+    try {
+      const timeout = AbortSignal.timeout(SCRAPE_CONFIG.fetchTimeout);
+      response = await fetch(url, {
+        headers,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Network error or timeout
+      console.error(`Fetch attempt ${attempt + 1} failed for ${url}:`, error);
+      if (attempt >= HTTP_CONFIG.maxRetries) throw error;
+      await sleep(backoffMs(attempt, null), signal);
+      continue;
+    }
+
+    if (response.status === 304) {
+      if (cached) {
+        remember(url, { ...cached, fetchedAt: Date.now() });
+        return cached.body;
+      }
+      // Not Modified with nothing cached: a cache miss, so ask again
+      console.warn(`${url} returned 304 without a cached copy, fetching again`);
+      if (attempt >= HTTP_CONFIG.maxRetries) {
+        throw new Error(`HTTP 304 for ${url} with no cached copy`);
+      }
+      continue;
+    }
+
+    const text = await response.text();
+    if (response.ok) {
+      if (isRecording()) {
+        await saveSnapshot(url, text);
+      }
+      remember(url, {
+        body: text,
+        etag: response.headers.get('etag') || undefined,
+        lastModified: response.headers.get('last-modified') || undefined,
+        fetchedAt: Date.now(),
+      });
+      return text;
+    }
+
+    const error = new Error(`HTTP ${response.status}: ${text.substring(0, 100)}`);
+    if (!isRetryableStatus(response.status) || attempt >= HTTP_CONFIG.maxRetries) {
+      throw error;
+    }
+    const wait = backoffMs(attempt, response.headers.get('retry-after'));
+    console.warn(`${url} returned ${response.status}, retrying in ${Math.round(wait)}ms`);
+    await sleep(wait, signal);
+  }
+}
@@ -0,0 +1,681 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { AuctionTerms, BidHistoryEntry, ExtensionRule, LotExtractionPath, PickupLocation } from '@/lib/types';
+import { centralTimeToDate, zonedParts } from '@/lib/auctionTime';
+
+export const KBID_BASE_URL = 'https://www.k-bid.com';
+
+// Links that identify a single lot: /auction/ID/item/N
+const LOT_PATH_REGEX = /\/auction\/(\d+)\/item\/(\d+)/;
+// Links that identify an auction: /auction/ID (but not its lots)
+const AUCTION_PATH_REGEX = /\/auction\/(\d+)(?:[/?#]|$)/;
+// Generic lot links used by older/alternate layouts
+const GENERIC_LOT_PATH_REGEX = /(?:\/lot\/|\/item\/|[?&]lot=)/;
+
+// Labels that mark the element holding a lot/auction close time
+const END_LABEL_REGEX = /\b(?:closes?|closing|closed|ends?|end date)\b/i;
+
+// A lot whose close was pushed back by late bids ("Extended", "Time extended"),
+// but not the "extended bidding" label soft-close auctions put on every lot
+const EXTENDED_REGEX = /\b(?:time\s+)?extended\b(?!\s+bidding)/i;
+
+// Links that point straight at a photo file
+const IMAGE_URL_REGEX = /\.(?:jpe?g|png|gif|webp)(?:\?|$)/i;
+
+// A cheerio selection of any node type
+type Selection = Cheerio<AnyNode>;
+
+// One lot card from an auction page or search results page
+export interface KBidLotCard {
+  url: string;
+  auctionId?: string;
+  lotNumber?: string;
+  title: string;
+  text: string;           // Normalized text of the card only
+  currentBid: number | null;
+  bidCount: number | null;
+  bidderCount: number | null;
+  imageUrl?: string;
+  endText?: string;       // Raw close-time text, parsed by the scraper
+  pickup?: PickupLocation;
+  isClosed: boolean;
+  isExtended: boolean;    // Close pushed back by late bids
+  extractionPath: LotExtractionPath;
+}
+
+// One auction card from the auction index
+export interface KBidAuctionCard {
+  id: string;
+  url: string;
+  title: string;
+  text: string;
+  endText?: string;
+  pickup?: PickupLocation;
+}
+
+// A single lot detail page
+export interface KBidLotPage {
+  title: string;
+  lotNumber?: string;
+  description?: string;
+  imageUrls: string[];
+  currentBid: number | null;
+  bidCount: number | null;
+  bidderCount: number | null;
+  pickupAddress?: string;
+  pickupWindow?: string;
+  shippingPolicy?: string;
+  seller?: string;
+  endText?: string;       // The lot's own close time as shown on the page
+  isClosed: boolean;
+  isExtended: boolean;
+  bidHistory: BidHistoryEntry[]; // Newest first; empty when the page has none
+}
+
+// Load HTML and pad every element with a trailing space so .text()
+// doesn't glue neighbouring elements together ("$45.007 bids")
+function loadDocument(html: string): CheerioAPI {
+  const $ = cheerio.load(html);
+  $('script, style, noscript').remove();
+  $('body *').after(' ');
+  return $;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function toAbsoluteUrl(href: string): string {
+  if (href.startsWith('http')) return href;
+  return href.startsWith('/') ? `${KBID_BASE_URL}${href}` : `${KBID_BASE_URL}/${href}`;
+}
+
+function parseMoney(value: string): number {
+  return parseFloat(value.replace(/,/g, ''));
+}
+
+// Extract current bid from plain text
+export function extractCurrentBid(text: string): number | null {
+  const bidMatch = text.match(/current\s*bid[:\s]*\$?([\d,]+(?:\.\d{2})?)/i);
+  if (bidMatch) {
+    return parseMoney(bidMatch[1]);
+  }
+  return null;
+}
+
+// Extract bid count from text
+export function extractBidCount(text: string): number | null {
+  // Pattern: "X bids" or "Bids: X" or "X Bid(s)"
+  const patterns = [
+    /(\d+)\s*bids?\b/i,
+    /bids?[:\s]*(\d+)/i,
+    /bid\s*count[:\s]*(\d+)/i
+  ];
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return parseInt(match[1], 10);
+    }
+  }
+  return null;
+}
+
+// Extract bidder count from text
+export function extractBidderCount(text: string): number | null {
+  // Pattern: "X bidders" or "from X bidders" or "Bidders: X"
+  const patterns = [
+    /(\d+)\s*bidders?\b/i,
+    /from\s*(\d+)\s*bidders?/i,
+    /bidders?[:\s]*(\d+)/i
+  ];
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return parseInt(match[1], 10);
+    }
+  }
+  return null;
+}
+
+// Check if item/auction is closed
+export function isClosed(text: string): boolean {
+  const closedPatterns = [
+    /lot\s+is\s+closed/i,
+    /auction\s+closed/i,
+    /bidding\s+closed/i,
+    /closed\s+auction/i,
+    /this\s+lot\s+has\s+ended/i,
+    /bidding\s+has\s+ended/i
+  ];
+  return closedPatterns.some(pattern => pattern.test(text));
+}
+
+export function isExtended(text: string): boolean {
+  return EXTENDED_REGEX.test(text);
+}
+
+export function isLotUrl(url: string): boolean {
+  return LOT_PATH_REGEX.test(url);
+}
+
+// "Pickup: Anoka, MN 55303" / "Location: Lakeville, MN"
+const LABELED_PICKUP_REGEX = /\b(?:pick\s*-?\s*up|location|removal)(?:\s+location)?\s*:?\s+([A-Z][A-Za-z.'-]*(?:\s+[A-Z][A-Za-z.'-]*)*),\s*([A-Z]{2})\b(?:\s+(\d{5}))?/;
+// Unlabeled "Anoka, MN 55303" or "Anoka, MN"
+const CITY_STATE_REGEX = /\b([A-Z][A-Za-z.'-]*(?:\s+[A-Z][A-Za-z.'-]*){0,2}),\s*([A-Z]{2})\b(?:\s+(\d{5}))?/;
+
+// Pull a pickup city/state/zip out of card or page text. Unlabeled matches
+// are only trusted when the text has no labeled location.
+export function extractPickupLocation(text: string, labeledOnly = false): PickupLocation | undefined {
+  const match = text.match(LABELED_PICKUP_REGEX) || (labeledOnly ? null : text.match(CITY_STATE_REGEX));
+  if (!match) return undefined;
+  return {
+    city: match[1].trim(),
+    state: match[2],
+    zip: match[3]
+  };
+}
+
+function lotKey(href: string | undefined): string | null {
+  if (!href) return null;
+  const match = href.match(LOT_PATH_REGEX);
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+function auctionKey(href: string | undefined): string | null {
+  if (!href || LOT_PATH_REGEX.test(href)) return null;
+  const match = href.match(AUCTION_PATH_REGEX);
+  return match ? match[1] : null;
+}
+
+// Walk up from a link to the largest ancestor that only links to the same
+// record. That ancestor is the card; its siblings belong to other lots.
+function isolateCard(
+  $: CheerioAPI,
+  anchor: Selection,
+  keyOf: (href: string | undefined) => string | null,
+  stopAt?: (parent: Selection) => boolean
+): Selection {
+  const key = keyOf(anchor.attr('href'));
+  let card = anchor;
+  let parent = card.parent();
+
+  while (parent.length > 0 && !parent.is('body, html')) {
+    if (stopAt && stopAt(parent)) break;
+    const otherRecord = parent.find('a[href]').toArray().some(a => {
+      const otherKey = keyOf($(a).attr('href'));
+      return otherKey !== null && otherKey !== key;
+    });
+    if (otherRecord) break;
+    card = parent;
+    parent = card.parent();
+  }
+
+  return card;
+}
+
+function isPhotoUrl(imgUrl: string): boolean {
+  // Skip placeholder/icon images
+  return !imgUrl.includes('placeholder') && !imgUrl.includes('icon') && !imgUrl.includes('logo');
+}
+
+function extractImages($: CheerioAPI, root: Selection): string[] {
+  const urls: string[] = [];
+
+  for (const img of root.find('img').toArray()) {
+    const $img = $(img);
+    // Thumbnails wrapped in a link to the full-size photo use the link
+    const fullSize = $img.closest('a').attr('href');
+    const candidates = [fullSize && IMAGE_URL_REGEX.test(fullSize) ? fullSize : undefined, $img.attr('data-src'), $img.attr('src')];
+    for (const src of candidates) {
+      if (!src || src.startsWith('data:')) continue;
+      const imgUrl = toAbsoluteUrl(src);
+      if (!isPhotoUrl(imgUrl)) continue;
+      urls.push(imgUrl);
+      break;
+    }
+  }
+
+  return Array.from(new Set(urls));
+}
+
+function extractImage($: CheerioAPI, card: Selection): string | undefined {
+  return extractImages($, card)[0];
+}
+
+function extractTitle($: CheerioAPI, card: Selection, anchors: Selection): string {
+  const heading = normalizeText(card.find('h1, h2, h3, h4, h5').first().text());
+  if (heading) return heading;
+
+  for (const a of anchors.toArray()) {
+    const text = normalizeText($(a).text());
+    if (text.length > 3) return text;
+  }
+
+  const alt = card.find('img[alt]').toArray()
+    .map(img => $(img).attr('alt') || '')
+    .map(value => value.match(/image:\s*(.+)$/i)?.[1]?.trim())
+    .find(Boolean);
+  if (alt) return alt;
+
+  return normalizeText(card.find('[title]').first().attr('title') || '');
+}
+
+// A close label followed by a date/time, so titles like "Close-Out" don't match
+function isEndLabel(text: string): boolean {
+  return END_LABEL_REGEX.test(text) && /\d/.test(text);
+}
+
+// Text of the tightest element carrying a close/end label
+function extractEndText($: CheerioAPI, card: Selection): string | undefined {
+  const labeled = card.find('*').toArray()
+    .map(el => normalizeText($(el).text()))
+    .filter(value => value.length <= 80 && isEndLabel(value))
+    .sort((a, b) => a.length - b.length);
+  return labeled[0];
+}
+
+function extractBidFromCard($: CheerioAPI, card: Selection, text: string): number | null {
+  // Prefer the element that holds the "Current Bid" label (e.g. <strong>)
+  const labeled = card.find('strong, b, span, p, div, td').toArray()
+    .map(el => normalizeText($(el).text()))
+    .filter(value => /current\s*bid/i.test(value))
+    .sort((a, b) => a.length - b.length);
+  for (const value of labeled) {
+    const bid = extractCurrentBid(value);
+    if (bid !== null) return bid;
+  }
+  return extractCurrentBid(text);
+}
+
+function buildLotCard(
+  $: CheerioAPI,
+  card: Selection,
+  anchors: Selection,
+  href: string,
+  extractionPath: LotExtractionPath
+): KBidLotCard {
+  const text = normalizeText(card.text());
+  const url = toAbsoluteUrl(href.split('?')[0].split('#')[0]);
+  const auctionId = href.match(LOT_PATH_REGEX)?.[1];
+  const lotNumber = text.match(/\blot\s*#?\s*(\d+[a-z]?)\b/i)?.[1];
+
+  return {
+    url,
+    auctionId,
+    lotNumber,
+    title: extractTitle($, card, anchors),
+    text,
+    currentBid: extractBidFromCard($, card, text),
+    bidCount: extractBidCount(text),
+    bidderCount: extractBidderCount(text),
+    imageUrl: extractImage($, card),
+    endText: extractEndText($, card),
+    pickup: extractPickupLocation(text),
+    isClosed: isClosed(text),
+    isExtended: isExtended(text),
+    extractionPath
+  };
+}
+
+// Lines of text under a labeled section: a heading and its following
+// siblings, a <dt>/<dd> pair or a <th>/<td> pair
+function sectionLines($: CheerioAPI, root: Selection, label: RegExp): string[] {
+  const heading = root.find('h2, h3, h4, h5, dt, th')
+    .filter((_, el) => label.test(normalizeText($(el).text())))
+    .first();
+  if (heading.length === 0) return [];
+
+  let blocks: Selection[] = [];
+  if (heading.is('dt')) {
+    blocks = [heading.next('dd')];
+  } else if (heading.is('th')) {
+    blocks = [heading.next('td')];
+  } else {
+    let next = heading.next();
+    // Stop at the next heading or at a block that starts its own labeled section
+    while (next.length > 0 && !next.is('h1, h2, h3, h4, h5, dl, table') && next.find('h2, h3, h4, h5, dt, th').length === 0) {
+      blocks.push(next);
+      next = next.next();
+    }
+  }
+
+  const lines: string[] = [];
+  for (const block of blocks) {
+    const children = block.find('p, li').toArray();
+    const texts = children.length > 0 ? children.map(el => $(el).text()) : [block.text()];
+    lines.push(...texts.map(normalizeText).filter(Boolean));
+  }
+  return lines;
+}
+
+function sectionText($: CheerioAPI, root: Selection, label: RegExp): string | undefined {
+  const text = sectionLines($, root, label).join('\n');
+  return text || undefined;
+}
+
+// Value of an inline "Label: value" pair, e.g. "Seller: Northstar Liquidators",
+// ending at the next "Label:" or the end of the text
+function inlineValue(text: string, label: RegExp): string | undefined {
+  const pattern = new RegExp(`${label.source}\\s*:\\s*(.{2,80}?)(?=\\s+[A-Z][\\w ]{0,20}:|$)`, 'i');
+  return text.match(pattern)?.[1]?.trim();
+}
+
+// Parse every lot card on an auction page or search results page.
+// Each card is isolated in the DOM, so bids/titles can't bleed across lots.
+export function parseLotCards(html: string): KBidLotCard[] {
+  const $ = loadDocument(html);
+  const cards: KBidLotCard[] = [];
+  const seen = new Set<string>();
+
+  for (const a of $('a[href]').toArray()) {
+    const href = $(a).attr('href');
+    const key = lotKey(href);
+    if (!href || !key || seen.has(key)) continue;
+    seen.add(key);
+
+    const card = isolateCard($, $(a), lotKey);
+    const anchors = card.find('a[href]').filter((_, el) => lotKey($(el).attr('href')) === key);
+    cards.push(buildLotCard($, card, anchors.length > 0 ? anchors : $(a), href, 'lot_links'));
+  }
+
+  if (cards.length > 0) return cards;
+
+  // Fallback for layouts that link lots as /lot/, /item/ or ?lot=
+  for (const a of $('a[href]').toArray()) {
+    const href = $(a).attr('href');
+    if (!href || !GENERIC_LOT_PATH_REGEX.test(href)) continue;
+    const key = href.split('#')[0];
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const card = isolateCard($, $(a), value => (value && GENERIC_LOT_PATH_REGEX.test(value) ? value.split('#')[0] : null));
+    cards.push(buildLotCard($, card, $(a), href, 'generic_links'));
+  }
+
+  return cards;
+}
+
+// Parse the auction index into one card per auction
+export function parseAuctionList(html: string): KBidAuctionCard[] {
+  const $ = loadDocument(html);
+  const auctions: KBidAuctionCard[] = [];
+  const seen = new Set<string>();
+
+  for (const a of $('a[href]').toArray()) {
+    const href = $(a).attr('href');
+    const id = auctionKey(href);
+    if (!href || !id || seen.has(id)) continue;
+    seen.add(id);
+
+    const card = isolateCard($, $(a), auctionKey);
+    const anchors = card.find('a[href]').filter((_, el) => auctionKey($(el).attr('href')) === id);
+    const text = normalizeText(card.text());
+
+    auctions.push({
+      id,
+      url: `${KBID_BASE_URL}/auction/${id}`,
+      title: extractTitle($, card, anchors).substring(0, 100),
+      text,
+      endText: extractEndText($, card),
+      pickup: extractPickupLocation(text)
+    });
+  }
+
+  return auctions.filter(a => a.title.length > 5);
+}
+
+// Parse a lot detail page. Related-lot cards on the page are removed first
+// so their bids and photos aren't mistaken for this lot's.
+export function parseLotPage(html: string, lotUrl?: string): KBidLotPage {
+  const $ = loadDocument(html);
+  const ownKey = lotKey(lotUrl);
+  const hasHeading = (parent: Selection) => parent.find('h1').length > 0;
+
+  for (const a of $('a[href]').toArray()) {
+    const key = lotKey($(a).attr('href'));
+    if (!key || key === ownKey) continue;
+    isolateCard($, $(a), lotKey, hasHeading).remove();
+  }
+
+  const main = $('main').length > 0 ? $('main').first() : $('body');
+  // Read the bid history table, then drop it so its amounts and bidder
+  // names don't leak into the current bid / bid count text matching
+  const historyTable = findBidHistoryTable($, main);
+  const bidHistory = historyTable ? parseBidHistoryTable($, historyTable) : [];
+  historyTable?.remove();
+  const text = normalizeText(main.text());
+
+  const description = sectionText($, main, /^(?:lot\s+)?description$/i)
+    || normalizeText(main.find('[class*="description"]').first().text())
+    || undefined;
+
+  const pickupLines = sectionLines($, main, /pick\s*-?\s*up|removal/i);
+  const pickupAddress = pickupLines.find(line => /\b[A-Z]{2}\s+\d{5}\b/.test(line))
+    || inlineValue(text, /pick\s*-?\s*up\s+(?:location|address)/);
+  const pickupWindow = pickupLines.find(line => line !== pickupAddress && /\d{1,2}(?::\d{2})?\s*(?:am|pm)/i.test(line));
+
+  return {
+    title: normalizeText($('h1').first().text()),
+    lotNumber: text.match(/\blot\s*#?\s*(\d+[a-z]?)\b/i)?.[1],
+    description,
+    imageUrls: extractImages($, main),
+    currentBid: extractBidFromCard($, main, text),
+    bidCount: extractBidCount(text),
+    bidderCount: extractBidderCount(text),
+    pickupAddress,
+    pickupWindow,
+    shippingPolicy: sectionText($, main, /shipping/i) || inlineValue(text, /shipping/),
+    seller: sectionText($, main, /^(?:seller|consignor)/i) || inlineValue(text, /(?:seller|consignor)/),
+    endText: extractEndText($, main),
+    isClosed: isClosed(text),
+    isExtended: isExtended(text),
+    bidHistory
+  };
+}
+
+// The table listing a lot's bids: one whose header names both an amount
+// and a time column
+function findBidHistoryTable($: CheerioAPI, root: Selection): Selection | null {
+  for (const table of root.find('table').toArray()) {
+    const headers = $(table).find('th').toArray().map(el => normalizeText($(el).text()));
+    if (headers.some(h => /amount|bid/i.test(h)) && headers.some(h => /date|time|placed/i.test(h))) {
+      return $(table);
+    }
+  }
+  return null;
+}
+
+function parseBidHistoryTable($: CheerioAPI, table: Selection): BidHistoryEntry[] {
+  const headers = table.find('th').toArray().map(el => normalizeText($(el).text()));
+  const amountHeader = headers.findIndex(h => /amount/i.test(h));
+  const amountCol = amountHeader >= 0 ? amountHeader : headers.findIndex(h => /bid/i.test(h) && !/bidder/i.test(h));
+  const timeCol = headers.findIndex(h => /date|time|placed/i.test(h));
+  const bidderCol = headers.findIndex(h => /bidder|user|name/i.test(h));
+
+  const bids: BidHistoryEntry[] = [];
+  for (const row of table.find('tr').toArray()) {
+    const cells = $(row).find('td').toArray().map(el => normalizeText($(el).text()));
+    if (cells.length === 0) continue;
+
+    const amountMatch = cells[amountCol]?.match(/\$?\s*([\d,]+(?:\.\d{2})?)/);
+    const placedAt = cells[timeCol] ? parseBidTime(cells[timeCol]) : null;
+    if (!amountMatch || !placedAt) continue;
+
+    bids.push({
+      amount: parseMoney(amountMatch[1]),
+      placedAt,
+      bidder: bidderCol >= 0 && cells[bidderCol] ? cells[bidderCol] : undefined
+    });
+  }
+
+  return bids.sort((a, b) => b.placedAt.localeCompare(a.placedAt));
+}
+
+// Bid timestamps like "3/18/2025 5:41:12 PM" (Central time). Unlike
+// parseEndTime these are in the past, so a missing year is never rolled forward.
+function parseBidTime(text: string): string | null {
+  const match = text.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})\s*,?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+  if (!match) return null;
+
+  let year = parseInt(match[3]);
+  if (year < 100) year += 2000;
+  let hours = parseInt(match[4]);
+  const ampm = match[7]?.toLowerCase();
+  if (ampm === 'pm' && hours !== 12) hours += 12;
+  if (ampm === 'am' && hours === 12) hours = 0;
+
+  const date = centralTimeToDate(year, parseInt(match[1]) - 1, parseInt(match[2]), hours, parseInt(match[5]), parseInt(match[6] || '0'));
+  return date.toISOString();
+}
+
+// Parse K-Bid close-time text (Central time) into a Date and its ISO string
+export function parseEndTime(text: string): { date: Date | null; iso: string | null } {
+  const result = (date: Date) => ({ date, iso: date.toISOString() });
+
+  try {
+    const now = new Date();
+    const today = zonedParts(now);
+    // A date printed without a year is the next one to come: "1/2 8:00 PM"
+    // read on New Year's Eve is in January of next year, not last January
+    const upcoming = (month: number, day: number, hours: number, minutes: number) => {
+      const date = centralTimeToDate(today.year, month, day, hours, minutes);
+      return date < now ? centralTimeToDate(today.year + 1, month, day, hours, minutes) : date;
+    };
+
+    // Look for full datetime patterns like "Closes Jan 15, 2024 6:00 PM" or "1/15/24 6:00pm"
+    // Pattern: date + time with AM/PM
+    const fullDateTimeMatch = text.match(
+      /(\d{1,2})[\/\-](\d{1,2})[\/\-]?(\d{2,4})?\s*,?\s*(\d{1,2}):(\d{2})\s*(am|pm|AM|PM)/i
+    );
+
+    if (fullDateTimeMatch) {
+      const month = parseInt(fullDateTimeMatch[1]) - 1;
+      const day = parseInt(fullDateTimeMatch[2]);
+
+      let hours = parseInt(fullDateTimeMatch[4]);
+      const minutes = parseInt(fullDateTimeMatch[5]);
+      const ampm = fullDateTimeMatch[6].toLowerCase();
+
+      if (ampm === 'pm' && hours !== 12) hours += 12;
+      if (ampm === 'am' && hours === 12) hours = 0;
+
+      if (!fullDateTimeMatch[3]) {
+        return result(upcoming(month, day, hours, minutes));
+      }
+      let year = parseInt(fullDateTimeMatch[3]);
+      if (year < 100) year += 2000;
+      return result(centralTimeToDate(year, month, day, hours, minutes));
+    }
+
+    // Look for month name + day + time: "Jan 15 6:00 PM" or "January 15, 6:00pm"
+    const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+    const monthTimeMatch = text.toLowerCase().match(
+      new RegExp(`(${monthNames.join('|')})\\w*\\s+(\\d{1,2})\\s*,?\\s*(\\d{1,2}):(\\d{2})\\s*(am|pm)?`, 'i')
+    );
+
+    if (monthTimeMatch) {
+      const month = monthNames.indexOf(monthTimeMatch[1].substring(0, 3));
+      const day = parseInt(monthTimeMatch[2]);
+      let hours = parseInt(monthTimeMatch[3]);
+      const minutes = parseInt(monthTimeMatch[4]);
+      const ampm = monthTimeMatch[5]?.toLowerCase();
+
+      if (ampm === 'pm' && hours !== 12) hours += 12;
+      if (ampm === 'am' && hours === 12) hours = 0;
+
+      return result(upcoming(month, day, hours, minutes));
+    }
+
+    // Look for just date without time (assume end of day)
+    const dateOnlyMatch = text.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-]?(\d{2,4})?/);
+    if (dateOnlyMatch) {
+      const month = parseInt(dateOnlyMatch[1]) - 1;
+      const day = parseInt(dateOnlyMatch[2]);
+
+      // Assume 11:59 PM if no time specified
+      if (!dateOnlyMatch[3]) {
+        return result(upcoming(month, day, 23, 59));
+      }
+      let year = parseInt(dateOnlyMatch[3]);
+      if (year < 100) year += 2000;
+      return result(centralTimeToDate(year, month, day, 23, 59));
+    }
+
+    // Look for "X days" pattern
+    const daysMatch = text.match(/(\d+)\s*days?/i);
+    if (daysMatch) {
+      const days = parseInt(daysMatch[1]);
+      // End of that day, counting calendar days in K-Bid's zone
+      return result(centralTimeToDate(today.year, today.month, today.day + days, 23, 59));
+    }
+
+    return { date: null, iso: null };
+  } catch {
+    return { date: null, iso: null };
+  }
+}
+
+// Soft-close rules from an auction page: "Lots extend 3 minutes if a bid is
+// placed in the final 3 minutes". Null when the page doesn't mention any.
+export function parseExtensionRule(html: string): ExtensionRule | null {
+  const $ = loadDocument(html);
+  const text = normalizeText($('body').text());
+  if (!/soft[\s-]*clos|extended\s+bidding|auto[\s-]*extend|\bextend(?:s|ed)?\b[^.]{0,40}\bminutes?\b/i.test(text)) {
+    return null;
+  }
+
+  const extendMatch = text.match(/extend(?:s|ed)?\s+(?:by\s+|for\s+|an?\s+additional\s+)?(\d+)\s*min/i);
+  const windowMatch = text.match(/(?:within|in)\s+the\s+(?:last|final)\s+(\d+)\s*min/i);
+  return {
+    extendMinutes: extendMatch ? parseInt(extendMatch[1], 10) : undefined,
+    windowMinutes: windowMatch ? parseInt(windowMatch[1], 10) : undefined
+  };
+}
+
+// Pickup location stated for a whole auction page (e.g. in its header)
+export function parseAuctionPickup(html: string): PickupLocation | undefined {
+  const $ = loadDocument(html);
+  return extractPickupLocation(normalizeText($('body').text()), true);
+}
+
+// Read buyer's premium, sales tax and per-lot fees from an auction page.
+// Only the terms actually found are returned.
+export function parseAuctionTerms(html: string): Partial<AuctionTerms> {
+  const $ = loadDocument(html);
+  const text = normalizeText($('body').text());
+  const terms: Partial<AuctionTerms> = {};
+
+  const premiumMatch = text.match(/buyer'?s?\s*premium[^%\d]{0,40}?(\d+(?:\.\d+)?)\s*%/i);
+  if (premiumMatch) {
+    terms.buyerPremiumRate = parseFloat(premiumMatch[1]) / 100;
+  }
+
+  const taxMatch = text.match(/sales\s*tax[^%\d]{0,40}?(\d+(?:\.\d+)?)\s*%/i);
+  if (taxMatch) {
+    terms.salesTaxRate = parseFloat(taxMatch[1]) / 100;
+  }
+
+  // Lot, handling and internet fees are all charged per lot. Terms pages
+  // often state a fee twice (summary and full terms), so each kind counts once.
+  const fees = new Map<string, number>();
+  for (const match of Array.from(text.matchAll(/\b(lot|handling|internet)\s*fee[^$\d]{0,20}?\$\s*([\d,]+(?:\.\d{2})?)/gi))) {
+    const kind = match[1].toLowerCase();
+    if (!fees.has(kind)) fees.set(kind, parseMoney(match[2]));
+  }
+  if (fees.size > 0) {
+    terms.lotFee = Array.from(fees.values()).reduce((sum, fee) => sum + fee, 0);
+  }
+
+  return terms;
+}
+
+// Highest page number linked from the page's pagination
+export function parsePageCount(html: string): number {
+  const $ = cheerio.load(html);
+  const pages = $('a[href*="page="]').toArray()
+    .map(a => ($(a).attr('href') || '').match(/[?&]page=(\d+)/i)?.[1])
+    .filter((page): page is string => page !== undefined)
+    .map(page => parseInt(page, 10));
+  return pages.length > 0 ? Math.max(1, ...pages) : 1;
+}
@@ -0,0 +1,450 @@
+import {
+  RawKBidItem,
+  AuctionTerms,
+  AuctionListing,
+  ExtensionRule,
+  LotStatus,
+  PickupLocation
+} from '@/lib/types';
+import { SCRAPE_CONFIG } from '@/lib/config';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  parseAuctionList,
+  parseAuctionPickup,
+  parseAuctionTerms,
+  parseEndTime,
+  parseExtensionRule,
+  parseLotCards,
+  parseLotPage,
+  parsePageCount,
+  isLotUrl,
+  toAbsoluteUrl,
+  KBidLotCard,
+  KBID_BASE_URL
+} from '@/services/kbidParser';
+import { fetchHtml } from '@/services/kbidClient';
+import { loadAuctionTerms, resolveAuctionTerms, saveAuctionTerms } from '@/services/auctionTerms';
+import type { AuctionSource } from '@/services/auctionSource';
+
+// Terms read during this process, keyed by auction ID, so later pages of the
+// same auction don't need another lookup
+const auctionTermsCache = new Map<string, AuctionTerms>();
+
+function toAuctionListings(html: string): AuctionListing[] {
+  return parseAuctionList(html).map(card => ({
+    url: card.url,
+    title: card.title,
+    endsAt: parseEndTime(card.endText || card.text).iso,
+    pickup: card.pickup
+  }));
+}
+
+// Every page of the auction index
+async function getAuctionList(signal?: AbortSignal): Promise<AuctionListing[]> {
+  const indexUrl = `${KBID_BASE_URL}/auction`;
+  const firstPage = await fetchHtml(indexUrl, { signal });
+  const pageCount = Math.min(parsePageCount(firstPage), SCRAPE_CONFIG.maxIndexPages);
+
+  const laterPages = Array.from({ length: pageCount - 1 }, (_, i) => i + 2);
+  if (laterPages.length > 0) {
+    console.log(`Auction index has ${pageCount} pages, fetching the rest...`);
+  }
+
+  const pages = await mapWithConcurrency(laterPages, SCRAPE_CONFIG.parallelAuctions, async page => {
+    try {
+      return toAuctionListings(await fetchHtml(`${indexUrl}?page=${page}`, { signal }));
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Failed to fetch auction index page ${page}:`, error);
+      return [];
+    }
+  });
+
+  // Listings can shift between pages while we read them
+  const seen = new Set<string>();
+  return [toAuctionListings(firstPage), ...pages].flat().filter(auction => {
+    if (seen.has(auction.url)) return false;
+    seen.add(auction.url);
+    return true;
+  });
+}
+
+// Convert a parsed lot card into the raw item handed to the AI extractor
+function toRawItem(
+  card: KBidLotCard,
+  auctionEndIso: string | null,
+  auctionPickup?: PickupLocation,
+  extensionRule?: ExtensionRule
+): RawKBidItem {
+  // Lots close on their own schedule (staggered, or extended by late bids),
+  // so the card's close time wins over the auction's
+  const closesAt = (card.endText ? parseEndTime(card.endText).iso : null) || auctionEndIso;
+
+  // Build text with title and bid for AI
+  let itemText = card.title || card.text.substring(0, 200);
+  if (card.currentBid !== null) {
+    itemText += ` Current Bid: $${card.currentBid.toFixed(2)}`;
+  }
+
+  return {
+    text: itemText,
+    title: card.title || undefined,
+    extractionPath: card.extractionPath,
+    url: card.url,
+    imageUrl: card.imageUrl,
+    auctionEndDate: auctionEndIso || closesAt || undefined,
+    closesAt: closesAt || undefined,
+    isExtended: card.isExtended || undefined,
+    extensionRule,
+    auctionId: card.auctionId,
+    auctionTerms: card.auctionId ? auctionTermsCache.get(card.auctionId) : undefined,
+    pickupLocation: card.pickup || auctionPickup,
+    // A $0 bid is a bid; only a missing one is undefined
+    currentBid: card.currentBid ?? undefined,
+    bidCount: card.bidCount || undefined,
+    bidderCount: card.bidderCount || undefined
+  };
+}
+
+// Items from a specific auction page, logging and returning nothing if it
+// can't be fetched
+async function getAuctionItems(
+  auctionUrl: string,
+  auctionEndIso: string | null,
+  auctionPickup?: PickupLocation,
+  savedTerms?: Set<string>,
+  signal?: AbortSignal
+): Promise<RawKBidItem[]> {
+  try {
+    return await fetchAuctionItems(auctionUrl, auctionEndIso, auctionPickup, savedTerms, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Failed to fetch auction ${auctionUrl}:`, error);
+    return [];
+  }
+}
+
+// savedTerms holds the auction IDs whose terms were already stored while
+// reading other pages of the same auction, so each is saved only once
+async function fetchAuctionItems(
+  auctionUrl: string,
+  auctionEndIso: string | null,
+  auctionPickup?: PickupLocation,
+  savedTerms?: Set<string>,
+  signal?: AbortSignal
+): Promise<RawKBidItem[]> {
+  const html = await fetchHtml(auctionUrl, { signal });
+  const auctionId = auctionUrl.match(/\/auction\/(\d+)/)?.[1];
+  if (auctionId && !savedTerms?.has(auctionId) && await rememberAuctionTerms(auctionId, html)) {
+    savedTerms?.add(auctionId);
+  }
+  // The auction page header is more specific than the index card
+  const pickup = parseAuctionPickup(html) || auctionPickup;
+  const extensionRule = parseExtensionRule(html) || undefined;
+
+  return parseLotCards(html)
+    // Skip closed items
+    .filter(card => !card.isClosed)
+    .map(card => toRawItem(card, auctionEndIso, pickup, extensionRule))
+    .filter(item => item.text.length > 3);
+}
+
+// Cache and store the terms printed on an auction page, if any
+async function rememberAuctionTerms(auctionId: string, html: string): Promise<AuctionTerms | null> {
+  const found = parseAuctionTerms(html);
+  if (Object.keys(found).length === 0) return null;
+
+  const terms = resolveAuctionTerms(found);
+  auctionTermsCache.set(auctionId, terms);
+  await saveAuctionTerms(auctionId, `${KBID_BASE_URL}/auction/${auctionId}`, terms);
+  return terms;
+}
+
+// Attach buyer premium/tax/fee terms to items that don't have them yet
+// (search results and later pages), from cache, database or the auction page
+async function addAuctionTerms(items: RawKBidItem[], signal?: AbortSignal): Promise<RawKBidItem[]> {
+  const missingIds = Array.from(new Set(
+    items
+      .filter(item => item.auctionId && !item.auctionTerms)
+      .map(item => item.auctionId as string)
+  )).filter(id => !auctionTermsCache.has(id));
+
+  const stored = await loadAuctionTerms(missingIds);
+  for (const auctionId of missingIds) {
+    const storedTerms = stored.get(auctionId);
+    if (storedTerms) {
+      auctionTermsCache.set(auctionId, storedTerms);
+      continue;
+    }
+    try {
+      const html = await fetchHtml(`${KBID_BASE_URL}/auction/${auctionId}`, { signal });
+      await rememberAuctionTerms(auctionId, html);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Failed to fetch terms for auction ${auctionId}:`, error);
+    }
+  }
+
+  return items.map(item => {
+    if (item.auctionTerms || !item.auctionId) return item;
+    const terms = auctionTermsCache.get(item.auctionId);
+    return terms ? { ...item, auctionTerms: terms } : item;
+  });
+}
+
+// Fill in description, photos, pickup and shipping from the lot page
+async function getLotDetails(item: RawKBidItem, signal?: AbortSignal): Promise<RawKBidItem> {
+  // Auction-link fallback items have no lot page
+  if (!isLotUrl(item.url)) return item;
+
+  try {
+    const html = await fetchHtml(item.url, { signal });
+    const page = parseLotPage(html, item.url);
+
+    return {
+      ...item,
+      imageUrl: item.imageUrl || page.imageUrls[0],
+      currentBid: page.currentBid ?? item.currentBid,
+      bidCount: page.bidCount || item.bidCount,
+      bidderCount: page.bidderCount || item.bidderCount,
+      lotNumber: page.lotNumber,
+      lotDescription: page.description,
+      imageUrls: page.imageUrls.length > 0 ? page.imageUrls : undefined,
+      pickupAddress: page.pickupAddress,
+      pickupWindow: page.pickupWindow,
+      shippingPolicy: page.shippingPolicy,
+      seller: page.seller,
+      // The lot page has the freshest close time, including extensions
+      closesAt: (page.endText ? parseEndTime(page.endText).iso : null) || item.closesAt,
+      isExtended: page.isExtended || item.isExtended,
+      bidHistory: page.bidHistory.length > 0 ? page.bidHistory : undefined
+    };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Failed to fetch lot details ${item.url}:`, error);
+    return item;
+  }
+}
+
+// Current bid and close time from a K-Bid item page. Always revalidates
+// with K-Bid since bids move, but an unchanged page comes back as a cheap 304.
+async function fetchLotStatus(lotUrl: string): Promise<LotStatus> {
+  try {
+    const html = await fetchHtml(lotUrl, { maxAge: 0 });
+    const { currentBid, isClosed, endText, isExtended } = parseLotPage(html);
+    const closesAt = endText ? parseEndTime(endText).iso : null;
+
+    return { currentBid, isClosed, closesAt, isExtended };
+  } catch (error) {
+    console.error(`Failed to fetch bid for ${lotUrl}:`, error);
+    return { currentBid: null, isClosed: false, closesAt: null, isExtended: false };
+  }
+}
+
+// Check if URL is a search results URL
+function isSearchUrl(url: string): boolean {
+  return url.includes('search_phrase_inline=') ||
+         url.includes('/auction/list?') ||
+         url.includes('/auction/search?') ||
+         url.includes('/items/category/');
+}
+
+// Extract items from search results HTML
+function extractSearchResultItems(html: string): RawKBidItem[] {
+  return parseLotCards(html)
+    // Skip closed items
+    .filter(card => !card.isClosed)
+    .map(card => {
+      // Search results span auctions, so each card carries its own end date
+      const { iso: auctionEndIso } = parseEndTime(card.endText || card.text);
+      return toRawItem(card, auctionEndIso);
+    })
+    .filter(item => item.text.length > 3);
+}
+
+// Scrape search results page - returns items matching search criteria
+export async function scrapeSearchResults(searchUrl: string, maxItems: number, signal?: AbortSignal): Promise<RawKBidItem[]> {
+  try {
+    console.log(`Scraping search results: ${searchUrl}`);
+
+    // Normalize URL
+    const normalizedUrl = toAbsoluteUrl(searchUrl);
+
+    const allItems: RawKBidItem[] = [];
+    let currentPage = 1;
+    const maxPages = 5; // Limit pages to avoid too many requests
+
+    // Parse the URL to preserve search params
+    const urlObj = new URL(normalizedUrl);
+
+    while (currentPage <= maxPages) {
+      signal?.throwIfAborted();
+      // Add or update page parameter
+      urlObj.searchParams.set('page', String(currentPage));
+      const pageUrl = urlObj.toString();
+
+      console.log(`Fetching search page ${currentPage}: ${pageUrl}`);
+      const html = await fetchHtml(pageUrl, { signal });
+
+      // Extract items from this page
+      const pageItems = extractSearchResultItems(html);
+      console.log(`Found ${pageItems.length} items on page ${currentPage}`);
+
+      if (pageItems.length === 0) {
+        console.log('No more items found, stopping pagination');
+        break;
+      }
+
+      allItems.push(...pageItems);
+
+      // Check if we have enough items
+      if (maxItems > 0 && allItems.length >= maxItems) {
+        console.log(`Reached max items limit (${maxItems})`);
+        break;
+      }
+
+      // Check for next page - look for pagination links
+      if (parsePageCount(html) <= currentPage) {
+        console.log('No next page found, stopping pagination');
+        break;
+      }
+
+      currentPage++;
+    }
+
+    // Deduplicate by URL
+    const seen = new Set<string>();
+    const uniqueItems = allItems.filter(item => {
+      const key = item.url || item.text.substring(0, 100);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    console.log(`Total unique items from search: ${uniqueItems.length}`);
+
+    return maxItems > 0 ? uniqueItems.slice(0, maxItems) : uniqueItems;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('Search results scraping error:', error);
+    throw new Error(`Failed to scrape search results: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Scrape a single auction by URL - returns all items without limit
+export async function scrapeSingleAuction(auctionUrl: string, signal?: AbortSignal): Promise<RawKBidItem[]> {
+  try {
+    console.log(`Scraping single auction: ${auctionUrl}`);
+
+    // Check if this is actually a search URL
+    if (isSearchUrl(auctionUrl)) {
+      return scrapeSearchResults(auctionUrl, 0, signal); // 0 = no limit
+    }
+
+    // Validate URL format for single auction
+    if (!auctionUrl.includes('k-bid.com/auction/')) {
+      throw new Error('Invalid K-Bid URL. Expected auction URL (e.g., https://www.k-bid.com/auction/12345) or search URL (e.g., https://www.k-bid.com/auction/list?search_phrase_inline=bicycle)');
+    }
+
+    // Normalize URL
+    const normalizedUrl = toAbsoluteUrl(auctionUrl);
+
+    // Remove any existing query params and try with showAll parameter
+    const baseUrl = normalizedUrl.split('?')[0];
+
+    // Try multiple URL variants to get all items
+    const urlsToTry = [
+      `${baseUrl}?showAll=true`,
+      `${baseUrl}?view=all`,
+      `${baseUrl}?perPage=500`,
+      baseUrl
+    ];
+
+    let allItems: RawKBidItem[] = [];
+    const savedTerms = new Set<string>();
+
+    for (const url of urlsToTry) {
+      signal?.throwIfAborted();
+      console.log(`Trying URL: ${url}`);
+      const items = await getAuctionItems(url, null, undefined, savedTerms, signal);
+      console.log(`Found ${items.length} items from ${url}`);
+
+      if (items.length > allItems.length) {
+        allItems = items;
+      }
+
+      // If we found a good number of items, stop trying
+      if (items.length >= 50) break;
+    }
+
+    // Also check for pagination - look for page links and fetch additional pages
+    signal?.throwIfAborted();
+    const html = await fetchHtml(baseUrl, { signal });
+    const maxPage = parsePageCount(html);
+
+    if (maxPage > 1) {
+      console.log(`Found ${maxPage} pages, fetching additional pages...`);
+      for (let page = 2; page <= Math.min(maxPage, 10); page++) {
+        signal?.throwIfAborted();
+        const pageUrl = `${baseUrl}?page=${page}`;
+        console.log(`Fetching page ${page}...`);
+        const pageItems = await getAuctionItems(pageUrl, null, undefined, savedTerms, signal);
+        console.log(`Found ${pageItems.length} items on page ${page}`);
+        allItems = [...allItems, ...pageItems];
+      }
+    }
+
+    console.log(`Total found: ${allItems.length} items in auction`);
+
+    // Deduplicate by URL
+    const seen = new Set<string>();
+    const uniqueItems = allItems.filter(item => {
+      const key = item.url || item.text.substring(0, 100);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    console.log(`After deduplication: ${uniqueItems.length} unique items`);
+
+    return uniqueItems;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('Single auction scraping error:', error);
+    throw new Error(`Failed to scrape auction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export const kbidSource: AuctionSource = {
+  id: 'kbid',
+  name: 'K-Bid',
+
+  handlesUrl(url) {
+    // Relative paths are K-Bid's, as pasted from its own links
+    return url.startsWith('/') || /(^|[/.])k-bid\.com(\/|$)/i.test(url);
+  },
+
+  isSearchUrl,
+
+  searchUrl(keyword) {
+    return `${KBID_BASE_URL}/auction/list?search_phrase_inline=${encodeURIComponent(keyword)}`;
+  },
+
+  listAuctions: getAuctionList,
+
+  async listLots(auction, signal) {
+    const items = await fetchAuctionItems(auction.url, auction.endsAt, auction.pickup, undefined, signal);
+    return addAuctionTerms(items, signal);
+  },
+
+  async lotsFromUrl(url, maxItems, signal) {
+    // Search results are paged to maxItems; an auction is read in full
+    const items = isSearchUrl(url)
+      ? await scrapeSearchResults(url, maxItems, signal)
+      : await scrapeSingleAuction(url, signal);
+    return addAuctionTerms(maxItems > 0 ? items.slice(0, maxItems) : items, signal);
+  },
+
+  fetchLot: getLotDetails,
+  refreshBid: fetchLotStatus
+};
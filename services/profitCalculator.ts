@@ -1,4 +1,5 @@
-import { ParsedItem, ValuationResult, ProfitAnalysis, AnalysisParams } from '@/lib/types';
+import { ParsedItem, ValuationResult, ProfitAnalysis, AnalysisParams, AuctionTerms } from '@/lib/types';
+import { DEFAULT_AUCTION_TERMS, TRAVEL_CONFIG } from '@/lib/config';
 
 const SHIPPING_ESTIMATES: Record<string, number> = {
   small: 8,
@@ -7,17 +8,45 @@ const SHIPPING_ESTIMATES: Record<string, number> = {
   oversized: 75
 };
 
-// K-Bid buyer's premium (typically 10%, some auctions 13%)
-const KBID_BUYER_PREMIUM_RATE = 0.10;
+// Multiplier applied to the hammer price: buyer's premium, then sales tax on bid + premium
+function bidMultiplier(terms: AuctionTerms): number {
+  return (1 + terms.buyerPremiumRate) * (1 + terms.salesTaxRate);
+}
+
+// Total paid to win a lot at the given bid (bid + premium + tax + per-lot fees)
+export function totalAcquisitionCost(bid: number, terms: AuctionTerms = DEFAULT_AUCTION_TERMS): number {
+  return bid * bidMultiplier(terms) + terms.lotFee;
+}
+
+// Round-trip cost of one pickup run: mileage plus (optionally) driving time
+export function calculateTravelCost(
+  distanceMiles: number | undefined,
+  params: Pick<AnalysisParams, 'travel_cost_per_mile' | 'travel_time_value_per_hour'>
+): number {
+  if (!distanceMiles || distanceMiles <= 0) return 0;
 
+  const roundTripMiles = distanceMiles * 2;
+  const costPerMile = params.travel_cost_per_mile ?? TRAVEL_CONFIG.costPerMile;
+  const timeValue = params.travel_time_value_per_hour ?? TRAVEL_CONFIG.timeValuePerHour;
+  const drivingHours = roundTripMiles / TRAVEL_CONFIG.averageSpeedMph;
+
+  return roundTripMiles * costPerMile + drivingHours * timeValue;
+}
+
+// tripLots is how many lots from this auction share one pickup trip;
+// 0 leaves travel out entirely
 export function calculateProfit(
   item: ParsedItem,
   valuation: ValuationResult,
-  params: AnalysisParams
+  params: AnalysisParams,
+  tripLots = 1
 ): ProfitAnalysis {
   const estimatedValue = valuation.estimatedValue;
   const shippingEstimate = SHIPPING_ESTIMATES[item.sizeClass] || 15;
   const sellingFeeRate = params.selling_fee_percent / 100;
+  const terms = item.auctionTerms || DEFAULT_AUCTION_TERMS;
+  const travelCost = calculateTravelCost(item.distanceMiles, params);
+  const amortizedTravelCost = tripLots > 0 ? travelCost / tripLots : 0;
 
   // Calculate selling fees on the sale price
   const sellingFees = estimatedValue * sellingFeeRate;
@@ -25,45 +54,51 @@ export function calculateProfit(
   // Net proceeds after selling fees and shipping
   const netProceeds = estimatedValue - sellingFees - shippingEstimate;
 
-  // Calculate total acquisition cost including K-Bid buyer's premium
-  // Total cost = bid + (bid * buyer_premium_rate)
-  const buyerPremiumMultiplier = 1 + KBID_BUYER_PREMIUM_RATE;
+  // Fixed costs of winning this lot regardless of bid: per-lot fees plus its share of the trip
+  const fixedCosts = terms.lotFee + amortizedTravelCost;
+
+  // Calculate total acquisition cost using this auction's terms
+  // Total cost = bid * multiplier + lotFee
+  // multiplier = (1 + buyer_premium_rate) * (1 + sales_tax_rate)
+  const multiplier = bidMultiplier(terms);
 
   // Calculate max bid to meet profit requirements
-  // Profit = NetProceeds - TotalCost = NetProceeds - (Bid * buyerPremiumMultiplier)
+  // Profit = NetProceeds - TotalCost = NetProceeds - (Bid * multiplier + fixedCosts)
   // ROI = Profit / TotalCost * 100
 
   // For minimum dollar profit:
-  // profit_min = netProceeds - (maxBid * multiplier)
-  // maxBid = (netProceeds - profit_min) / multiplier
-  const maxBidForDollarProfit = (netProceeds - params.profit_min_dollars) / buyerPremiumMultiplier;
+  // profit_min = netProceeds - (maxBid * multiplier + fixedCosts)
+  // maxBid = (netProceeds - profit_min - fixedCosts) / multiplier
+  const maxBidForDollarProfit = (netProceeds - params.profit_min_dollars - fixedCosts) / multiplier;
 
   // For minimum ROI:
-  // ROI = (netProceeds - (maxBid * multiplier)) / (maxBid * multiplier) * 100
-  // Solving: maxBid = netProceeds / (multiplier * (1 + ROI/100))
-  const maxBidForROI = netProceeds / (buyerPremiumMultiplier * (1 + params.profit_min_percent / 100));
+  // ROI = (netProceeds - totalCost) / totalCost * 100
+  // Solving: totalCost = netProceeds / (1 + ROI/100)
+  // maxBid = (netProceeds / (1 + ROI/100) - fixedCosts) / multiplier
+  const maxBidForROI = (netProceeds / (1 + params.profit_min_percent / 100) - fixedCosts) / multiplier;
 
   // Take the lower of the two to satisfy both requirements
   const maxBid = Math.max(0, Math.min(maxBidForDollarProfit, maxBidForROI));
 
-  // Calculate total cost at max bid (including buyer's premium)
-  const maxBidTotalCost = maxBid * buyerPremiumMultiplier;
+  // Calculate total cost at max bid (including premium, tax, fees and travel)
+  const maxBidTotalCost = totalAcquisitionCost(maxBid, terms) + amortizedTravelCost;
 
   // Calculate expected profit and ROI at max bid (target metrics)
   const expectedProfit = netProceeds - maxBidTotalCost;
   const expectedROI = maxBidTotalCost > 0 ? (expectedProfit / maxBidTotalCost) * 100 : 0;
 
-  // Calculate actual total cost at current bid (including buyer's premium)
-  const actualTotalCost = item.currentBid * buyerPremiumMultiplier;
+  // Calculate actual total cost at current bid (including premium, tax and fees)
+  const acquisitionCost = totalAcquisitionCost(item.currentBid, terms);
+  const actualTotalCost = acquisitionCost + amortizedTravelCost;
 
   // Calculate actual profit and ROI at current bid
   const actualProfit = netProceeds - actualTotalCost;
   const actualROI = actualTotalCost > 0 ? (actualProfit / actualTotalCost) * 100 : 0;
 
-  // Break-even bid (where profit = 0, accounting for buyer's premium)
-  const breakEvenPrice = netProceeds / buyerPremiumMultiplier;
+  // Break-even bid (where profit = 0, accounting for premium, tax, fees and travel)
+  const breakEvenPrice = (netProceeds - fixedCosts) / multiplier;
 
-  // Total fees for display (selling fees only - buyer's premium shown separately)
+  // Total fees for display (selling fees only - acquisition fees shown separately)
   const fees = sellingFees;
 
   return {
@@ -74,6 +109,9 @@ export function calculateProfit(
     actualROI: Math.round(actualROI * 100) / 100,
     breakEvenPrice: Math.round(breakEvenPrice * 100) / 100,
     shippingEstimate,
-    fees: Math.round(fees * 100) / 100
+    fees: Math.round(fees * 100) / 100,
+    acquisitionFees: Math.round((acquisitionCost - item.currentBid) * 100) / 100,
+    travelCost: Math.round(travelCost * 100) / 100,
+    amortizedTravelCost: Math.round(amortizedTravelCost * 100) / 100
   };
 }
@@ -0,0 +1,133 @@
+import { RawKBidItem, RedFlag, RedFlagKind, ResaleAdvice, ValuationResult } from '@/lib/types';
+import { RED_FLAG_CONFIG } from '@/lib/config';
+
+// Phrases in lot text that mark a problem, most serious kind first (an image
+// observation takes the first kind that matches it)
+const PATTERNS: { kind: RedFlagKind; pattern: RegExp }[] = [
+  {
+    kind: 'parts_only',
+    pattern: /\bfor\s+parts\b|\bparts\s+only\b|\bparts\s*(?:or|\/|&|and)\s*repair\b|\bnon[-\s]?working\b|\bnot\s+working\b|\b(?:doesn'?t|does\s+not|won'?t|will\s+not)\s+(?:work|power\s+on|turn\s+on|start|run)\b|\bneeds?\s+repairs?\b|\bdefective\b|\bbroken\b/gi
+  },
+  {
+    kind: 'untested',
+    pattern: /\buntested\b|\bnot\s+tested\b|\b(?:unable\s+to|could\s*n'?t|could\s+not|can'?t|cannot)\s+test\b|\bunknown\s+working\s+condition\b/gi
+  },
+  {
+    kind: 'damaged',
+    pattern: /\b(?:cracked|shattered|dented|damaged|water\s+damage|torn|rusty|rusted|scratched|chipped|stained|bent)\b/gi
+  },
+  {
+    kind: 'missing_parts',
+    pattern: /\b(?:no|missing|without)\s+(?:the\s+|its\s+)?(?:charger|remote|batter(?:y|ies)|power\s+(?:cord|supply|adapter)|cords?|cables?|adapter|controllers?|keys?|lid|stand|base|hardware|accessories|parts|pieces)\b|\bincomplete\b/gi
+  },
+  {
+    // Not the "as is, where is" boilerplate that most auction terms carry
+    kind: 'as_is',
+    pattern: /\bas[-\s]is\b(?![\s,/-]*where)/gi
+  }
+];
+
+// "not damaged", "no missing parts", "never broken"
+const NEGATION = /\b(?:no|not|never|without|isn'?t)\s+(?:\w+\s+)?$/i;
+
+const RISK_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+function snippet(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - 30);
+  const to = Math.min(text.length, end + 30);
+  return `${from > 0 ? '…' : ''}${text.slice(from, to).replace(/\s+/g, ' ').trim()}${to < text.length ? '…' : ''}`;
+}
+
+function textFlags(text: string): RedFlag[] {
+  const flags: RedFlag[] = [];
+  for (const { kind, pattern } of PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const start = match.index ?? 0;
+      if (NEGATION.test(text.slice(Math.max(0, start - 20), start))) continue;
+      flags.push({
+        kind,
+        label: match[0].toLowerCase().replace(/\s+/g, ' '),
+        source: 'text',
+        evidence: snippet(text, start, start + match[0].length)
+      });
+    }
+  }
+  return flags;
+}
+
+// What the model saw in the photos, e.g. "cracked screen"; anything that
+// doesn't match a known phrase counts as damage
+function imageFlag(observation: string): RedFlag {
+  const kind = PATTERNS.find(({ pattern }) => new RegExp(pattern.source, 'i').test(observation))?.kind ?? 'damaged';
+  const label = observation.trim().toLowerCase();
+  return {
+    kind,
+    label: label.length > 40 ? `${label.substring(0, 39)}…` : label,
+    source: 'image',
+    evidence: observation.trim()
+  };
+}
+
+// Red flags in a lot's text and description, plus the problems the model
+// reported seeing in its photos. One flag per kind and label.
+export function detectRedFlags(item: RawKBidItem, imageObservations: string[] = []): RedFlag[] {
+  const text = [item.text, item.lotDescription].filter(Boolean).join('\n');
+  const flags = [...textFlags(text), ...imageObservations.filter(Boolean).map(imageFlag)];
+
+  const seen = new Set<string>();
+  return flags.filter(flag => {
+    const key = `${flag.kind}:${flag.label}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function describeRedFlags(flags: RedFlag[]): string {
+  return Array.from(new Set(flags.map(flag => flag.label))).join(', ');
+}
+
+// Share of a lot's value kept given its red flags: each kind counts once
+export function redFlagValueFactor(flags: RedFlag[] = []): number {
+  const kinds = new Set(flags.map(flag => flag.kind));
+  if (kinds.size === 0) return 1;
+
+  let factor = 1;
+  for (const kind of kinds) {
+    factor *= RED_FLAG_CONFIG.kinds[kind].valueFactor;
+  }
+  return Math.max(Math.round(factor * 100) / 100, RED_FLAG_CONFIG.minValueFactor);
+}
+
+// Mark a valuation down for the lot's red flags
+export function discountForRedFlags(valuation: ValuationResult, flags: RedFlag[] = []): ValuationResult {
+  const factor = redFlagValueFactor(flags);
+  if (factor === 1) return valuation;
+
+  const discount = (value: number) => Math.round(value * factor * 100) / 100;
+  return {
+    ...valuation,
+    estimatedValue: discount(valuation.estimatedValue),
+    lowEstimate: discount(valuation.lowEstimate),
+    highEstimate: discount(valuation.highEstimate),
+    ...(valuation.unitValue !== undefined ? { unitValue: discount(valuation.unitValue) } : {}),
+    redFlagFactor: factor,
+    reasoning: `${valuation.reasoning} Reduced to ${Math.round(factor * 100)}% for red flags: ${describeRedFlags(flags)}.`
+  };
+}
+
+// Raise the advice's risk score to at least what the red flags call for
+export function raiseRiskForRedFlags(advice: ResaleAdvice, flags: RedFlag[] = []): ResaleAdvice {
+  if (flags.length === 0) return advice;
+
+  const floor = flags
+    .map(flag => RED_FLAG_CONFIG.kinds[flag.kind].minRisk)
+    .reduce((highest, risk) => RISK_RANK[risk] > RISK_RANK[highest] ? risk : highest, 'low' as ResaleAdvice['riskScore']);
+  if (RISK_RANK[floor] <= RISK_RANK[advice.riskScore]) return advice;
+
+  return {
+    ...advice,
+    riskScore: floor,
+    riskReasoning: `Red flags: ${describeRedFlags(flags)}. ${advice.riskReasoning}`
+  };
+}
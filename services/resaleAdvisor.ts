@@ -1,19 +1,23 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { ParsedItem, ValuationResult, ResaleAdvice } from '@/lib/types';
-
-const anthropic = new Anthropic();
+import * as schema from '@/lib/schema';
+import { requestStructured } from './structuredOutput';
+import { describeRedFlags, raiseRiskForRedFlags } from './redFlags';
+
+const adviceSchema = schema.object({
+  recommendedChannel: schema.string({ nonEmpty: true }),
+  riskScore: schema.oneOf(['low', 'medium', 'high'] as const),
+  riskReasoning: schema.string({ nonEmpty: true }),
+  tips: schema.array(schema.string()),
+  quickTake: schema.optional(schema.string())
+});
 
 export async function getResaleAdvice(
   item: ParsedItem,
-  valuation: ValuationResult
+  valuation: ValuationResult,
+  signal?: AbortSignal
 ): Promise<ResaleAdvice> {
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
-      messages: [{
-        role: 'user',
-        content: `Provide resale advice for this item.
+    const prompt = `Provide resale advice for this item.
 
 ITEM: ${item.title}
 CATEGORY: ${item.category}
@@ -21,7 +25,7 @@ CONDITION: ${item.condition}
 SIZE: ${item.sizeClass}
 ESTIMATED VALUE: $${valuation.estimatedValue}
 VALUATION CONFIDENCE: ${valuation.confidence}
-
+${item.redFlags?.length ? `RED FLAGS: ${describeRedFlags(item.redFlags)}\n` : ''}
 Return ONLY valid JSON:
 {
   "recommendedChannel": "eBay/Amazon/Facebook Marketplace/Craigslist/OfferUp/Specialty Site",
@@ -34,39 +38,23 @@ Return ONLY valid JSON:
 Consider:
 - Item category and typical buyers
 - Size/shipping complexity
-- Condition and authenticity concerns
+- Condition and authenticity concerns, and any red flags
 - Market demand
-- Platform fees vs. audience reach`
-      }]
-    });
-
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type');
-    }
-
-    let jsonStr = content.text.trim();
-    if (jsonStr.startsWith('```')) {
-      jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '');
-    }
-
-    const parsed = JSON.parse(jsonStr);
+- Platform fees vs. audience reach`;
 
-    return {
-      recommendedChannel: parsed.recommendedChannel || 'eBay',
-      riskScore: parsed.riskScore || 'medium',
-      riskReasoning: parsed.riskReasoning || 'Unable to assess risk',
-      tips: parsed.tips || [],
-      quickTake: parsed.quickTake
-    };
+    const { value, source } = await requestStructured(adviceSchema, prompt, { label: 'resale advice', signal });
+    return raiseRiskForRedFlags({ ...value, outputSource: source }, item.redFlags);
 
   } catch (error) {
+    // Cancelling shouldn't leave an item finished with placeholder advice
+    if (signal?.aborted) throw error;
     console.error('Resale advice error:', error);
-    return {
+    return raiseRiskForRedFlags({
       recommendedChannel: 'eBay',
       riskScore: 'medium',
       riskReasoning: 'Unable to generate advice',
-      tips: ['Research the item thoroughly before bidding']
-    };
+      tips: ['Research the item thoroughly before bidding'],
+      outputSource: 'fallback'
+    }, item.redFlags);
   }
 }
@@ -0,0 +1,48 @@
+import { RawKBidItem, SavedSearch } from '@/lib/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match, so excluding "case" doesn't drop a bookcase
+export function mentions(text: string, phrase: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(phrase.trim())}\\b`, 'i').test(text);
+}
+
+// Keywords with blanks and repeats removed (case-insensitive)
+export function searchKeywords(search: SavedSearch): string[] {
+  const seen = new Set<string>();
+  return search.keywords
+    .map(keyword => keyword.trim())
+    .filter(keyword => {
+      const key = keyword.toLowerCase();
+      if (!keyword || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Apply the search's exclusions, price cap and date window to a scraped lot.
+// Lots with an unknown bid or close time are kept.
+export function matchesSavedSearch(item: RawKBidItem, search: SavedSearch, now = new Date()): boolean {
+  const text = `${item.title || ''} ${item.text}`;
+  if (search.exclude_keywords.some(word => word.trim() && mentions(text, word))) {
+    return false;
+  }
+
+  if (search.max_price != null && item.currentBid !== undefined && item.currentBid > search.max_price) {
+    return false;
+  }
+
+  const closesAt = item.closesAt || item.auctionEndDate;
+  if (closesAt) {
+    const closeTime = new Date(closesAt).getTime();
+    if (closeTime < now.getTime() || closeTime > now.getTime() + search.window_days * DAY_MS) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SavedSearchRecord, UserProfile, profileExclusionRules } from '@/lib/supabase';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { SCAN_CONFIG } from '@/lib/config';
+import { ScanRunStatus, Territory } from '@/lib/types';
+import { scrapeSavedSearch } from '@/services/auctionScraper';
+import { analyzeBatch, logAnalyzedItems } from '@/services/batchAnalyzer';
+import { saveHealthReport } from '@/services/scrapeHealth';
+
+// Unattended scans: every saved search with scan_enabled is scraped, analyzed
+// in batches and logged to analyzed_auctions, with one scan_runs row each
+
+type ScanOwner = Pick<UserProfile,
+  'territory_zip' | 'territory_lat' | 'territory_lng' | 'territory_radius_miles' | 'is_active' |
+  'categories_allowed' | 'excluded_categories' | 'excluded_keywords' | 'max_size_class' | 'shipping_required'>;
+type ScanProfile = SavedSearchRecord & { users: ScanOwner | null };
+
+export interface ScanProfileResult {
+  savedSearchId: string;
+  name: string;
+  status: ScanRunStatus;
+  itemsScraped: number;
+  itemsAnalyzed: number;
+  itemsProfitable: number;
+  error?: string;
+}
+
+export interface ScheduledScanSummary {
+  profiles: ScanProfileResult[];
+  remaining: number; // Profiles not reached before the time budget ran out
+}
+
+// Same rule as the interactive scrape: only with a radius and a point to measure from
+function ownerTerritory(owner: ScanOwner | null): Territory | undefined {
+  if (!owner?.territory_radius_miles || owner.territory_radius_miles <= 0) return undefined;
+  const hasCoords = owner.territory_lat != null && owner.territory_lng != null;
+  if (!hasCoords && !owner.territory_zip) return undefined;
+
+  return {
+    zip: owner.territory_zip,
+    lat: owner.territory_lat,
+    lng: owner.territory_lng,
+    radiusMiles: owner.territory_radius_miles
+  };
+}
+
+// Least recently scanned first, so a profile that missed the last budget goes next
+async function loadScanProfiles(db: SupabaseClient): Promise<ScanProfile[]> {
+  const { data, error } = await db
+    .from('saved_searches')
+    .select('*, users(territory_zip, territory_lat, territory_lng, territory_radius_miles, is_active, categories_allowed, excluded_categories, excluded_keywords, max_size_class, shipping_required)')
+    .eq('scan_enabled', true)
+    .order('last_scanned_at', { ascending: true, nullsFirst: true });
+
+  if (error) {
+    throw new Error(`Failed to load scan profiles: ${error.message}`);
+  }
+  return ((data || []) as ScanProfile[]).filter(profile => profile.users?.is_active !== false);
+}
+
+// `signal` aborts when the scan's time budget runs out, cancelling the scrape
+// or batch in flight
+async function runProfile(db: SupabaseClient, profile: ScanProfile, signal: AbortSignal): Promise<ScanProfileResult> {
+  const result: ScanProfileResult = {
+    savedSearchId: profile.id,
+    name: profile.name,
+    status: 'completed',
+    itemsScraped: 0,
+    itemsAnalyzed: 0,
+    itemsProfitable: 0
+  };
+
+  const { data: run, error: runError } = await db
+    .from('scan_runs')
+    .insert({ saved_search_id: profile.id, user_id: profile.user_id, status: 'running' })
+    .select('id')
+    .single();
+  if (runError) {
+    console.error(`Failed to record scan run for "${profile.name}":`, runError);
+  }
+
+  try {
+    const scrape = await scrapeSavedSearch(profile, SCAN_CONFIG.maxItemsPerProfile, {
+      territory: ownerTerritory(profile.users),
+      includeLotDetails: profile.include_lot_details,
+      signal
+    });
+    await saveHealthReport(scrape.health);
+    result.itemsScraped = scrape.items.length;
+
+    const params = {
+      profit_min_dollars: profile.profit_min_dollars ?? SCAN_CONFIG.defaultProfitMinDollars,
+      profit_min_percent: profile.profit_min_percent ?? SCAN_CONFIG.defaultProfitMinPercent,
+      selling_fee_percent: profile.selling_fee_percent ?? SCAN_CONFIG.defaultSellingFeePercent,
+      selected_categories: profile.categories,
+      exclusion_rules: profileExclusionRules(profile.users)
+    };
+
+    for (let i = 0; i < scrape.items.length; i += SCAN_CONFIG.batchSize) {
+      signal.throwIfAborted();
+      const batch = await analyzeBatch({ ...params, raw_items: scrape.items.slice(i, i + SCAN_CONFIG.batchSize) }, signal);
+      // Awaited rather than fire-and-forget: the function may be frozen as soon as the response is sent
+      await logAnalyzedItems(batch.items);
+      result.itemsAnalyzed += batch.summary.totalAnalyzed;
+      result.itemsProfitable += batch.summary.totalProfitable;
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      // Batches logged before the budget ran out stay logged
+      console.warn(`Scan of "${profile.name}" ran out of time`);
+      result.status = 'partial';
+    } else {
+      console.error(`Scan of "${profile.name}" failed:`, error);
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  if (run) {
+    const { error } = await db
+      .from('scan_runs')
+      .update({
+        status: result.status,
+        finished_at: new Date().toISOString(),
+        items_scraped: result.itemsScraped,
+        items_analyzed: result.itemsAnalyzed,
+        items_profitable: result.itemsProfitable,
+        error: result.error
+      })
+      .eq('id', run.id);
+    if (error) console.error(`Failed to finish scan run for "${profile.name}":`, error);
+  }
+
+  // Even a failed profile moves to the back of the queue so it can't starve the others
+  await db
+    .from('saved_searches')
+    .update({ last_scanned_at: new Date().toISOString() })
+    .eq('id', profile.id);
+
+  return result;
+}
+
+// A run still 'running' long after the function's maxDuration was cut off
+// before it could record how it ended
+async function failStaleRuns(db: SupabaseClient): Promise<void> {
+  const cutoff = new Date(Date.now() - SCAN_CONFIG.staleRunAfter).toISOString();
+  const { data, error } = await db
+    .from('scan_runs')
+    .update({ status: 'failed', finished_at: new Date().toISOString(), error: 'Stopped before it finished' })
+    .eq('status', 'running')
+    .lt('started_at', cutoff)
+    .select('id');
+
+  if (error) {
+    console.error('Failed to close stale scan runs:', error);
+  } else if (data && data.length > 0) {
+    console.warn(`Marked ${data.length} stale scan runs as failed`);
+  }
+}
+
+export async function runScheduledScans(): Promise<ScheduledScanSummary> {
+  const db = getSupabaseAdmin();
+  if (!db) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  }
+
+  const budget = AbortSignal.timeout(SCAN_CONFIG.timeBudget);
+  await failStaleRuns(db);
+  const profiles = await loadScanProfiles(db);
+  console.log(`Scheduled scan: ${profiles.length} saved searches to run`);
+
+  const results: ScanProfileResult[] = [];
+  for (const profile of profiles) {
+    if (budget.aborted) break;
+    results.push(await runProfile(db, profile, budget));
+  }
+
+  return { profiles: results, remaining: profiles.length - results.length };
+}
@@ -0,0 +1,115 @@
+import { supabase, ScrapeHealthRecord } from '@/lib/supabase';
+import { LotExtractionPath, RawKBidItem, ScrapeHealthReport } from '@/lib/types';
+import { SCRAPE_HEALTH_THRESHOLDS } from '@/lib/config';
+
+function ratio(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 10000) / 10000 : 0;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Summarize how completely a scrape's lots were extracted
+export function buildHealthReport(
+  items: RawKBidItem[],
+  source: string,
+  auctionsSkipped = 0
+): ScrapeHealthReport {
+  const total = items.length;
+  const extractionPaths: Partial<Record<LotExtractionPath, number>> = {};
+  for (const item of items) {
+    if (item.extractionPath) {
+      extractionPaths[item.extractionPath] = (extractionPaths[item.extractionPath] || 0) + 1;
+    }
+  }
+
+  const ratios = {
+    bid: ratio(items.filter(item => item.currentBid !== undefined).length, total),
+    title: ratio(items.filter(item => item.title).length, total),
+    image: ratio(items.filter(item => item.imageUrl).length, total),
+    endDate: ratio(items.filter(item => item.auctionEndDate).length, total)
+  };
+
+  const warnings: string[] = [];
+  if (total === 0) {
+    warnings.push('No lots found');
+  } else {
+    const labels: Record<keyof typeof ratios, string> = {
+      bid: 'a current bid',
+      title: 'a title',
+      image: 'an image',
+      endDate: 'an end date'
+    };
+    for (const key of Object.keys(ratios) as (keyof typeof ratios)[]) {
+      if (ratios[key] < SCRAPE_HEALTH_THRESHOLDS[key]) {
+        warnings.push(`Only ${percent(ratios[key])} of lots have ${labels[key]} (expected ${percent(SCRAPE_HEALTH_THRESHOLDS[key])})`);
+      }
+    }
+
+    const genericShare = ratio(extractionPaths.generic_links || 0, total);
+    if (genericShare > SCRAPE_HEALTH_THRESHOLDS.maxGenericPathShare) {
+      warnings.push(`${percent(genericShare)} of lots were found by the generic link fallback - K-Bid's lot links may have changed`);
+    }
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    source,
+    totalLots: total,
+    auctionsSkipped,
+    ratios,
+    extractionPaths,
+    warnings
+  };
+}
+
+export async function saveHealthReport(report: ScrapeHealthReport): Promise<void> {
+  const { error } = await supabase
+    .from('scrape_health_reports')
+    .insert({
+      created_at: report.createdAt,
+      source: report.source,
+      total_lots: report.totalLots,
+      auctions_skipped: report.auctionsSkipped,
+      bid_ratio: report.ratios.bid,
+      title_ratio: report.ratios.title,
+      image_ratio: report.ratios.image,
+      end_date_ratio: report.ratios.endDate,
+      extraction_paths: report.extractionPaths,
+      warnings: report.warnings
+    });
+
+  if (error) {
+    console.error('Failed to save scrape health report:', error);
+  }
+}
+
+// Most recent reports, newest first
+export async function getRecentHealthReports(limit = 10): Promise<ScrapeHealthReport[]> {
+  const { data, error } = await supabase
+    .from('scrape_health_reports')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Failed to load scrape health reports:', error);
+    return [];
+  }
+
+  return ((data || []) as ScrapeHealthRecord[]).map(row => ({
+    createdAt: row.created_at,
+    source: row.source,
+    totalLots: row.total_lots,
+    auctionsSkipped: row.auctions_skipped,
+    ratios: {
+      bid: Number(row.bid_ratio),
+      title: Number(row.title_ratio),
+      image: Number(row.image_ratio),
+      endDate: Number(row.end_date_ratio)
+    },
+    extractionPaths: row.extraction_paths,
+    warnings: row.warnings || []
+  }));
+}
@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { SNAPSHOT_CONFIG } from '@/lib/config';
+
+// Archive of raw K-Bid pages, keyed by URL and fetch time, so a bad scrape
+// can be re-parsed against exactly what K-Bid served (and turned into fixtures)
+
+interface SnapshotStore {
+  save(url: string, html: string, fetchedAt: Date): Promise<void>;
+  // Latest snapshot of the URL taken at or before `at`
+  load(url: string, at?: Date): Promise<string | null>;
+}
+
+// Readable directory name per URL, with a hash so long/odd URLs can't collide
+function urlKey(url: string): string {
+  const { host, pathname, search } = new URL(url);
+  const slug = `${host}${pathname}${search}`
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, 80);
+  const hash = createHash('sha1').update(url).digest('hex').substring(0, 8);
+  return `${slug}-${hash}`;
+}
+
+// ISO timestamps sort chronologically; colons swapped for portable filenames
+function timestampName(date: Date): string {
+  return `${date.toISOString().replace(/:/g, '-')}.html`;
+}
+
+const fileStore: SnapshotStore = {
+  async save(url, html, fetchedAt) {
+    const dir = path.join(SNAPSHOT_CONFIG.dir, urlKey(url));
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, timestampName(fetchedAt)), html, 'utf8');
+  },
+
+  async load(url, at) {
+    const dir = path.join(SNAPSHOT_CONFIG.dir, urlKey(url));
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      return null;
+    }
+
+    const cutoff = at ? timestampName(at) : null;
+    const match = files
+      .filter(file => file.endsWith('.html') && (!cutoff || file <= cutoff))
+      .sort()
+      .pop();
+    return match ? fs.readFile(path.join(dir, match), 'utf8') : null;
+  }
+};
+
+// kbid_snapshots has RLS with no policies, so the archive is server-only
+function snapshotDb() {
+  const db = getSupabaseAdmin();
+  if (!db) throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  return db;
+}
+
+const supabaseStore: SnapshotStore = {
+  async save(url, html, fetchedAt) {
+    const { error } = await snapshotDb()
+      .from('kbid_snapshots')
+      .insert({ url, html, fetched_at: fetchedAt.toISOString() });
+
+    if (error) throw new Error(error.message);
+  },
+
+  async load(url, at) {
+    let query = snapshotDb()
+      .from('kbid_snapshots')
+      .select('html')
+      .eq('url', url);
+    if (at) {
+      query = query.lte('fetched_at', at.toISOString());
+    }
+
+    const { data, error } = await query
+      .order('fetched_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw new Error(error.message);
+    return data && data.length > 0 ? data[0].html as string : null;
+  }
+};
+
+function getStore(): SnapshotStore {
+  return SNAPSHOT_CONFIG.store === 'supabase' ? supabaseStore : fileStore;
+}
+
+export function isRecording(): boolean {
+  return SNAPSHOT_CONFIG.mode === 'record';
+}
+
+export function isReplaying(): boolean {
+  return SNAPSHOT_CONFIG.mode === 'replay';
+}
+
+// Archive a fetched page. Failures are logged, never thrown - archiving
+// must not break a live scrape.
+export async function saveSnapshot(url: string, html: string, fetchedAt = new Date()): Promise<void> {
+  try {
+    await getStore().save(url, html, fetchedAt);
+  } catch (error) {
+    console.error(`Failed to archive snapshot of ${url}:`, error);
+  }
+}
+
+// Archived copy of a page, as of SNAPSHOT_CONFIG.replayAt (or the latest)
+export async function loadSnapshot(url: string): Promise<string | null> {
+  const at = SNAPSHOT_CONFIG.replayAt ? new Date(SNAPSHOT_CONFIG.replayAt) : undefined;
+  return getStore().load(url, at);
+}
@@ -0,0 +1,89 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { Schema, SchemaError } from '@/lib/schema';
+import { AnalysisError } from '@/lib/analysisErrors';
+import { OutputSource } from '@/lib/types';
+
+// One way for every service to get JSON out of the model: parse the reply,
+// validate it against a schema, and on a bad reply ask once more with the
+// problem spelled out. Callers that have a default to fall back on mark it
+// as such, so placeholder data never passes for a real answer.
+
+const anthropic = new Anthropic();
+
+const MODEL = 'claude-sonnet-4-20250514';
+
+export interface StructuredResult<T> {
+  value: T;
+  source: Exclude<OutputSource, 'fallback'>;
+}
+
+export interface StructuredOptions {
+  label: string;          // What's being asked for, in logs and errors
+  maxTokens?: number;
+  signal?: AbortSignal;
+  repair?: boolean;       // Ask again after an invalid reply (default true)
+}
+
+function replyText(response: Anthropic.Message): string {
+  const content = response.content[0];
+  if (!content || content.type !== 'text') {
+    throw new SchemaError('response: expected text');
+  }
+
+  // Remove any markdown formatting around the JSON
+  let jsonStr = content.text.trim();
+  if (jsonStr.startsWith('```')) {
+    jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '');
+  }
+  return jsonStr;
+}
+
+function validate<T>(schema: Schema<T>, text: string): T {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new SchemaError(`response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`);
+  }
+  return schema.parse(json);
+}
+
+// Ask for JSON matching `schema`. Throws an AnalysisError (json_parse_failed)
+// if the reply is still invalid after the repair attempt; API errors and
+// cancellation are thrown as they are.
+export async function requestStructured<T>(
+  schema: Schema<T>,
+  content: Anthropic.MessageParam['content'],
+  options: StructuredOptions
+): Promise<StructuredResult<T>> {
+  const maxTokens = options.maxTokens ?? 1024;
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content }];
+
+  const first = await anthropic.messages.create({ model: MODEL, max_tokens: maxTokens, messages }, { signal: options.signal });
+  let text = '';
+  try {
+    text = replyText(first);
+    return { value: validate(schema, text), source: 'model' };
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    if (options.repair === false) {
+      throw new AnalysisError('json_parse_failed', `Invalid ${options.label} response: ${error.message}`);
+    }
+    console.warn(`Invalid ${options.label} response, asking for a repair:`, error.message);
+    messages.push(
+      { role: 'assistant', content: text || '(no text)' },
+      {
+        role: 'user',
+        content: `That reply could not be used: ${error.message}.\nReply again with ONLY the corrected JSON in the format asked for - no markdown, no explanation.`
+      }
+    );
+  }
+
+  const second = await anthropic.messages.create({ model: MODEL, max_tokens: maxTokens, messages }, { signal: options.signal });
+  try {
+    return { value: validate(schema, replyText(second)), source: 'repaired' };
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    throw new AnalysisError('json_parse_failed', `Invalid ${options.label} response after repair: ${error.message}`);
+  }
+}
@@ -1,7 +1,21 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { ParsedItem, ValuationResult } from '@/lib/types';
-
-const anthropic = new Anthropic();
+import { AnalysisError, toAnalysisError } from '@/lib/analysisErrors';
+import * as schema from '@/lib/schema';
+import { requestStructured } from './structuredOutput';
+import { describeRedFlags, discountForRedFlags } from './redFlags';
+
+const valuationSchema = schema.refine(
+  schema.object({
+    estimatedValue: schema.number({ min: 0 }),
+    lowEstimate: schema.number({ min: 0 }),
+    highEstimate: schema.number({ min: 0 }),
+    confidence: schema.oneOf(['low', 'medium', 'high'] as const),
+    sources: schema.optional(schema.array(schema.string()), []),
+    reasoning: schema.string({ nonEmpty: true })
+  }),
+  valuation => valuation.lowEstimate <= valuation.estimatedValue && valuation.estimatedValue <= valuation.highEstimate,
+  'expected lowEstimate <= estimatedValue <= highEstimate'
+);
 
 interface SerperResult {
   organic?: Array<{
@@ -11,14 +25,15 @@ interface SerperResult {
   }>;
 }
 
-async function searchSerper(query: string): Promise<SerperResult> {
+async function searchSerper(query: string, signal?: AbortSignal): Promise<SerperResult> {
   const apiKey = process.env.SERPER_API_KEY;
   if (!apiKey) {
-    throw new Error('SERPER_API_KEY is not configured');
+    throw new AnalysisError('serper_error', 'SERPER_API_KEY is not configured');
   }
 
   const response = await fetch('https://google.serper.dev/search', {
     method: 'POST',
+    signal,
     headers: {
       'X-API-KEY': apiKey,
       'Content-Type': 'application/json'
@@ -31,43 +46,67 @@ async function searchSerper(query: string): Promise<SerperResult> {
 
   if (!response.ok) {
     const text = await response.text();
-    throw new Error(`Serper API error: ${response.status} - ${text.substring(0, 100)}`);
+    throw new AnalysisError('serper_error', `Serper API error: ${response.status} - ${text.substring(0, 100)}`);
   }
 
   const text = await response.text();
   try {
     return JSON.parse(text);
   } catch {
-    throw new Error(`Serper returned invalid JSON: ${text.substring(0, 100)}`);
+    throw new AnalysisError('serper_error', `Serper returned invalid JSON: ${text.substring(0, 100)}`);
+  }
+}
+
+// Searches for one unit of the lot. A model number (with its brand) or a UPC
+// finds listings of that exact product; otherwise describe the unit in words.
+function searchQueries(item: ParsedItem): string[] {
+  const unit = item.unitDescription || item.title;
+  if (item.modelNumber) {
+    const model = [item.brand, item.modelNumber].filter(Boolean).join(' ');
+    return [`${model} sold price`, `${model} for sale`, `${unit} worth value`];
+  }
+  if (item.upc) {
+    return [`${item.upc} sold price`, `${unit} for sale`, `${unit} worth value`];
   }
+  return [`${unit} sold price`, `${unit} for sale`, `${unit} worth value`];
 }
 
-export async function getValuation(item: ParsedItem): Promise<ValuationResult> {
+// Throws an AnalysisError when the lookup itself fails (every search errored,
+// or the model call failed); finding no prices is a low-confidence $0 result.
+export async function getValuation(item: ParsedItem, signal?: AbortSignal): Promise<ValuationResult> {
   try {
     // Search for sold prices and current listings
-    const searchQueries = [
-      `${item.title} sold price`,
-      `${item.title} for sale`,
-      `${item.title} worth value`
-    ];
+    const queries = searchQueries(item);
+    const quantity = item.quantity && item.quantity > 1 ? item.quantity : 1;
 
     const searchResults: string[] = [];
+    let searchError: unknown;
+    let searchesFailed = 0;
 
-    for (const query of searchQueries) {
+    for (const query of queries) {
       try {
-        const result = await searchSerper(query);
+        const result = await searchSerper(query, signal);
         if (result.organic) {
           for (const r of result.organic.slice(0, 5)) {
             searchResults.push(`Source: ${r.title}\nSnippet: ${r.snippet}\nURL: ${r.link}`);
           }
         }
       } catch (e) {
+        if (signal?.aborted) throw e;
         console.error(`Search failed for query: ${query}`, e);
+        searchError = e;
+        searchesFailed++;
       }
       // Small delay between searches
       await new Promise(resolve => setTimeout(resolve, 200));
     }
 
+    if (searchesFailed === queries.length) {
+      throw searchError instanceof AnalysisError
+        ? searchError
+        : new AnalysisError('serper_error', `Serper search failed: ${searchError instanceof Error ? searchError.message : 'Unknown error'}`);
+    }
+
     if (searchResults.length === 0) {
       return {
         estimatedValue: 0,
@@ -75,26 +114,31 @@ export async function getValuation(item: ParsedItem): Promise<ValuationResult> {
         highEstimate: 0,
         confidence: 'low',
         sources: [],
-        reasoning: 'No search results found for this item'
+        reasoning: 'No search results found for this item',
+        outputSource: 'fallback'
       };
     }
 
     // Send to Claude for analysis
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
-      messages: [{
-        role: 'user',
-        content: `Analyze these search results to estimate the resale value of this item.
+    const identifiers = [
+      item.unitDescription && `UNIT: ${item.unitDescription}`,
+      item.brand && `BRAND: ${item.brand}`,
+      item.modelNumber && `MODEL/PART NUMBER: ${item.modelNumber}`,
+      item.upc && `UPC: ${item.upc}`,
+      quantity > 1 && `QUANTITY IN LOT: ${quantity}`,
+      item.redFlags?.length && `KNOWN ISSUES: ${describeRedFlags(item.redFlags)}`
+    ].filter(Boolean).join('\n');
+
+    const prompt = `Analyze these search results to estimate the resale value of ONE unit of this item.
 
 ITEM: ${item.title}
 CATEGORY: ${item.category}
 CONDITION: ${item.condition}
-
+${identifiers ? `${identifiers}\n` : ''}${item.lotDescription ? `LOT DESCRIPTION: ${item.lotDescription.substring(0, 1500)}\n` : ''}
 SEARCH RESULTS:
 ${searchResults.join('\n\n---\n\n')}
 
-Based on the search results, estimate the resale value. Return ONLY valid JSON:
+Based on the search results, estimate the resale value of a single unit${quantity > 1 ? ` (the lot has ${quantity}; the lot total is worked out from this)` : ''}. Return ONLY valid JSON:
 {
   "estimatedValue": 0,
   "lowEstimate": 0,
@@ -105,45 +149,33 @@ Based on the search results, estimate the resale value. Return ONLY valid JSON:
 }
 
 Rules:
-- Use USD values
+- Use USD values, per single unit
+- Prefer results for the exact model/part number or UPC when given; ignore listings for bundles or different models
+- Value a complete, working unit in the stated condition; any KNOWN ISSUES are discounted separately
 - estimatedValue should be the most likely selling price
 - lowEstimate and highEstimate define a realistic range
 - confidence: high if multiple consistent prices found, medium if some data, low if uncertain
 - List the most relevant sources used
-- If no clear pricing data, set estimatedValue to 0 and confidence to "low"`
-      }]
-    });
+- If no clear pricing data, set estimatedValue to 0 and confidence to "low"`;
 
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type');
-    }
+    const { value, source } = await requestStructured(valuationSchema, prompt, { label: 'valuation', signal });
 
-    let jsonStr = content.text.trim();
-    if (jsonStr.startsWith('```')) {
-      jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '');
+    if (quantity === 1) {
+      return discountForRedFlags({ ...value, outputSource: source }, item.redFlags);
     }
-
-    const parsed = JSON.parse(jsonStr);
-
-    return {
-      estimatedValue: parsed.estimatedValue || 0,
-      lowEstimate: parsed.lowEstimate || 0,
-      highEstimate: parsed.highEstimate || 0,
-      confidence: parsed.confidence || 'low',
-      sources: parsed.sources || [],
-      reasoning: parsed.reasoning || 'Unable to determine value'
-    };
+    return discountForRedFlags({
+      ...value,
+      estimatedValue: value.estimatedValue * quantity,
+      lowEstimate: value.lowEstimate * quantity,
+      highEstimate: value.highEstimate * quantity,
+      unitValue: value.estimatedValue,
+      quantity,
+      reasoning: `${value.reasoning} (${quantity} units at about $${value.estimatedValue} each)`,
+      outputSource: source
+    }, item.redFlags);
 
   } catch (error) {
     console.error('Valuation error:', error);
-    return {
-      estimatedValue: 0,
-      lowEstimate: 0,
-      highEstimate: 0,
-      confidence: 'low',
-      sources: [],
-      reasoning: `Valuation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-    };
+    throw toAnalysisError(error, signal);
   }
 }
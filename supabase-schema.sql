@@ -73,7 +73,8 @@ ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Users can view own profile" ON users
   FOR SELECT USING (auth.uid() = id);
 
--- Users can update their own profile (but not role/territory)
+-- Users can update their own profile (restrict_self_profile_update below
+-- keeps role/territory out of reach)
 CREATE POLICY "Users can update own profile" ON users
   FOR UPDATE USING (auth.uid() = id)
   WITH CHECK (auth.uid() = id);
@@ -86,6 +87,51 @@ CREATE POLICY "Admins have full access" ON users
     )
   );
 
+-- Exclusion rules: lots the user never wants analyzed. Applied in the extraction
+-- prompt and to its results, together with categories_allowed (added after initial release)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS excluded_categories JSONB DEFAULT '["Coins, Currency & Precious Metals", "Commercial & Industrial", "Farm Equipment", "Heavy Equipment & Construction", "Real Estate", "Vehicles & Marine"]'::JSONB;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS excluded_keywords JSONB DEFAULT '[]'::JSONB;  -- Whole words in the lot's title or description
+ALTER TABLE users ADD COLUMN IF NOT EXISTS max_size_class TEXT CHECK (max_size_class IN ('small', 'medium', 'large', 'oversized'));  -- NULL = any size
+ALTER TABLE users ADD COLUMN IF NOT EXISTS shipping_required BOOLEAN DEFAULT FALSE;      -- Skip pickup-only lots
+
+-- A user updating their own profile can change their name and exclusion rules
+-- only; role, territory, license and categories_allowed are for admins. Updates
+-- without a signed-in user (SQL editor, service role) are not restricted.
+CREATE OR REPLACE FUNCTION restrict_self_profile_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.territory_zip IS DISTINCT FROM OLD.territory_zip
+    OR NEW.territory_radius_miles IS DISTINCT FROM OLD.territory_radius_miles
+    OR NEW.territory_lat IS DISTINCT FROM OLD.territory_lat
+    OR NEW.territory_lng IS DISTINCT FROM OLD.territory_lng
+    OR NEW.territory_name IS DISTINCT FROM OLD.territory_name
+    OR NEW.is_active IS DISTINCT FROM OLD.is_active
+    OR NEW.license_type IS DISTINCT FROM OLD.license_type
+    OR NEW.license_expires_at IS DISTINCT FROM OLD.license_expires_at
+    OR NEW.categories_allowed IS DISTINCT FROM OLD.categories_allowed
+    OR NEW.max_items_per_search IS DISTINCT FROM OLD.max_items_per_search
+  THEN
+    RAISE EXCEPTION 'Only an admin can change role, territory, license or allowed categories'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS restrict_self_profile_update ON users;
+CREATE TRIGGER restrict_self_profile_update
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION restrict_self_profile_update();
+
 -- Function to handle new user signup
 CREATE OR REPLACE FUNCTION handle_new_user()
 RETURNS TRIGGER AS $$
@@ -160,7 +206,7 @@ CREATE TABLE IF NOT EXISTS watchlist (
   size_class TEXT,
   auction_url TEXT NOT NULL UNIQUE,
   image_url TEXT,
-  auction_end_date TEXT,
+  auction_end_date TIMESTAMPTZ,  -- ISO close time (K-Bid lists Central time)
 
   -- Pricing
   saved_bid DECIMAL(10,2) NOT NULL,  -- Bid when item was saved
@@ -252,7 +298,7 @@ CREATE TABLE IF NOT EXISTS analyzed_auctions (
   size_class TEXT,
   auction_url TEXT NOT NULL,
   image_url TEXT,
-  auction_end_date TEXT,
+  auction_end_date TIMESTAMPTZ,  -- ISO close time (K-Bid lists Central time)
 
   -- Bid activity
   bid_count INTEGER DEFAULT 0,
@@ -299,6 +345,61 @@ CREATE TABLE IF NOT EXISTS analyzed_auctions (
   valuation_high DECIMAL(10,2)
 );
 
+-- Fee terms applied when the item was analyzed (added after initial release)
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS buyer_premium_rate DECIMAL(5,4);
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS sales_tax_rate DECIMAL(6,5);
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS lot_fee DECIMAL(10,2);
+
+-- Enough of the analysis to reuse it when the same lot is scanned again (added after initial release)
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS shipping_available BOOLEAN;
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS valuation_sources TEXT[];
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS resale_tips TEXT[];
+-- When the extraction and valuation were made; a reused one keeps its original time.
+-- Existing rows stay NULL and fall back to created_at.
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS valued_at TIMESTAMPTZ;
+ALTER TABLE analyzed_auctions ALTER COLUMN valued_at SET DEFAULT NOW();
+
+-- Where each AI result came from: 'model', 'repaired' (valid only after being told
+-- what was wrong) or 'fallback' (a default, not real data) (added after initial release)
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS extraction_source TEXT;
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS valuation_source TEXT;
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS advice_source TEXT;
+
+-- What exactly the lot is, and how many (added after initial release)
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS brand TEXT;
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS model_number TEXT;
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS upc TEXT;
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS quantity INTEGER;
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS unit_description TEXT;
+
+-- Red flags found in the lot text and photos, e.g. [{"kind": "untested", "label": "untested",
+-- "source": "text", "evidence": "..."}]; the valuation is already discounted for them (added after initial release)
+ALTER TABLE analyzed_auctions ADD COLUMN IF NOT EXISTS red_flags JSONB;
+
+-- auction_end_date used to hold display text like 'Mar 18, 6:00 PM' with no
+-- year or zone. Convert columns still stored as text; rows that aren't ISO
+-- become NULL. Columns already converted are left alone, so this can be rerun.
+DO $$
+DECLARE
+  table_to_convert TEXT;
+BEGIN
+  FOREACH table_to_convert IN ARRAY ARRAY['analyzed_auctions', 'watchlist'] LOOP
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public'
+        AND table_name = table_to_convert
+        AND column_name = 'auction_end_date'
+        AND data_type = 'text'
+    ) THEN
+      EXECUTE format(
+        'ALTER TABLE %I ALTER COLUMN auction_end_date TYPE TIMESTAMPTZ
+           USING CASE WHEN auction_end_date ~ %L THEN auction_end_date::timestamptz END',
+        table_to_convert, '^\d{4}-\d{2}-\d{2}T'
+      );
+    END IF;
+  END LOOP;
+END $$;
+
 -- Indexes for analytics queries
 CREATE INDEX IF NOT EXISTS idx_analyzed_created_at ON analyzed_auctions(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_analyzed_category ON analyzed_auctions(category);
@@ -330,6 +431,9 @@ CREATE TABLE IF NOT EXISTS market_insights (
   expires_at TIMESTAMPTZ  -- optional expiration
 );
 
+-- 'model' or 'repaired' (added after initial release)
+ALTER TABLE market_insights ADD COLUMN IF NOT EXISTS source TEXT;
+
 CREATE INDEX IF NOT EXISTS idx_insights_type ON market_insights(insight_type);
 CREATE INDEX IF NOT EXISTS idx_insights_active ON market_insights(is_active);
 CREATE INDEX IF NOT EXISTS idx_insights_created ON market_insights(created_at DESC);
@@ -364,3 +468,258 @@ CREATE TRIGGER update_category_stats_updated_at
   BEFORE UPDATE ON category_stats
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- AUCTION TERMS TABLE
+-- Buyer's premium, sales tax and per-lot fees read from each K-Bid auction page
+-- ============================================
+CREATE TABLE IF NOT EXISTS auction_terms (
+  auction_id TEXT PRIMARY KEY,  -- K-Bid auction ID (from /auction/ID)
+  auction_url TEXT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  buyer_premium_rate DECIMAL(5,4) NOT NULL DEFAULT 0.10,  -- 0.13 = 13%
+  sales_tax_rate DECIMAL(6,5) NOT NULL DEFAULT 0,  -- applied to bid + premium
+  lot_fee DECIMAL(10,2) NOT NULL DEFAULT 0  -- flat lot/handling fees per lot
+);
+
+-- Trigger to update auction_terms updated_at
+DROP TRIGGER IF EXISTS update_auction_terms_updated_at ON auction_terms;
+CREATE TRIGGER update_auction_terms_updated_at
+  BEFORE UPDATE ON auction_terms
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- KBID SNAPSHOTS TABLE
+-- Raw K-Bid pages archived by the scraper (KBID_SNAPSHOT_MODE=record, KBID_SNAPSHOT_STORE=supabase)
+-- ============================================
+CREATE TABLE IF NOT EXISTS kbid_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  url TEXT NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  html TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_kbid_snapshots_url_time ON kbid_snapshots(url, fetched_at DESC);
+
+-- No policies: only the server, with the service role key, reads or writes the archive
+ALTER TABLE kbid_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- SCRAPE HEALTH REPORTS TABLE
+-- One row per scrape: how many lots came back with each field, so parser drift shows up
+-- ============================================
+CREATE TABLE IF NOT EXISTS scrape_health_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  source TEXT NOT NULL,  -- 'index' or the auction/search URL scraped
+  total_lots INTEGER NOT NULL,
+  auctions_skipped INTEGER NOT NULL DEFAULT 0,
+  bid_ratio DECIMAL(5,4) NOT NULL,
+  title_ratio DECIMAL(5,4) NOT NULL,
+  image_ratio DECIMAL(5,4) NOT NULL,
+  end_date_ratio DECIMAL(5,4) NOT NULL,
+  extraction_paths JSONB NOT NULL DEFAULT '{}',  -- lots found per parser path
+  warnings TEXT[] NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_health_created ON scrape_health_reports(created_at DESC);
+
+-- ============================================
+-- BID HISTORY TABLE
+-- Individual bids read from lot pages, for bid velocity analysis
+-- ============================================
+CREATE TABLE IF NOT EXISTS bid_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  analyzed_auction_id UUID NOT NULL REFERENCES analyzed_auctions(id) ON DELETE CASCADE,
+  auction_url TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  placed_at TIMESTAMPTZ NOT NULL,
+  bidder TEXT,  -- Anonymized handle as K-Bid shows it, e.g. 'Bidder 4471'
+  UNIQUE(analyzed_auction_id, placed_at, amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bid_history_auction ON bid_history(analyzed_auction_id, placed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bid_history_url ON bid_history(auction_url);
+
+-- No policies: only the server, with the service role key, reads or writes bid history
+ALTER TABLE bid_history ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- SAVED SEARCHES TABLE
+-- Named keyword searches a user re-runs across all open auctions
+-- ============================================
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  name TEXT NOT NULL,
+  keywords TEXT[] NOT NULL DEFAULT '{}',          -- Each searched separately, results merged
+  exclude_keywords TEXT[] NOT NULL DEFAULT '{}',  -- Drop lots mentioning any of these
+  categories TEXT[] NOT NULL DEFAULT '{}',        -- Empty = all categories
+  max_price DECIMAL(10,2),                        -- Skip lots already bid past this
+  window_days INTEGER NOT NULL DEFAULT 7,         -- Lots closing within this many days
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id);
+
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON saved_searches;
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved searches" ON saved_searches
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own saved searches" ON saved_searches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved searches" ON saved_searches
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved searches" ON saved_searches
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Scheduled scan settings for saved searches (see /api/cron/scan)
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS scan_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS profit_min_dollars DECIMAL(10,2);
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS profit_min_percent DECIMAL(10,2);
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS selling_fee_percent DECIMAL(10,2);
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS include_lot_details BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS last_scanned_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_scan ON saved_searches(last_scanned_at NULLS FIRST) WHERE scan_enabled;
+
+-- ============================================
+-- SCAN RUNS TABLE
+-- One row per saved search processed by a scheduled scan
+-- ============================================
+CREATE TABLE IF NOT EXISTS scan_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'running',  -- 'running', 'completed', 'partial', 'failed'
+  items_scraped INTEGER NOT NULL DEFAULT 0,
+  items_analyzed INTEGER NOT NULL DEFAULT 0,
+  items_profitable INTEGER NOT NULL DEFAULT 0,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_runs_search ON scan_runs(saved_search_id, started_at DESC);
+
+ALTER TABLE scan_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scan runs" ON scan_runs
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ============================================
+-- ANALYSIS RUNS TABLES
+-- Resumable analysis jobs: raw items are submitted once, then workers move
+-- each item through extraction, valuation and pricing (see /api/analysis-runs)
+-- ============================================
+CREATE TABLE IF NOT EXISTS analysis_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  status TEXT NOT NULL DEFAULT 'running',  -- 'running', 'completed'
+  params JSONB NOT NULL,                   -- Profit thresholds, fees, categories and travel costs
+  total_items INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS analysis_run_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES analysis_runs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,               -- Order the item was submitted in
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  status TEXT NOT NULL DEFAULT 'pending',  -- 'pending', 'extracted', 'valued', 'done', 'failed'
+  raw_item JSONB NOT NULL,
+  parsed_item JSONB,
+  valuation JSONB,
+  result JSONB,                            -- Analyzed item; NULL when skipped
+  skip_reason TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  locked_until TIMESTAMPTZ,                -- Lease held by the worker processing the item
+  logged_at TIMESTAMPTZ,                   -- When the result was written to analyzed_auctions
+  UNIQUE(run_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_run_items_status ON analysis_run_items(run_id, status, position);
+
+DROP TRIGGER IF EXISTS update_analysis_runs_updated_at ON analysis_runs;
+CREATE TRIGGER update_analysis_runs_updated_at
+  BEFORE UPDATE ON analysis_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_analysis_run_items_updated_at ON analysis_run_items;
+CREATE TRIGGER update_analysis_run_items_updated_at
+  BEFORE UPDATE ON analysis_run_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Why an item failed and where a retry picks it up (added after initial release)
+ALTER TABLE analysis_run_items ADD COLUMN IF NOT EXISTS failure_reason TEXT;  -- 'image_fetch_failed', 'json_parse_failed', 'serper_error', 'anthropic_rate_limited', ...
+ALTER TABLE analysis_run_items ADD COLUMN IF NOT EXISTS failed_stage TEXT;    -- 'extracting', 'valuing', 'pricing', 'advising'
+
+-- Who submitted the run; the API only shows and works on a run for its owner.
+-- Runs from before this column have no owner and can't be opened (added after initial release)
+ALTER TABLE analysis_runs ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_user ON analysis_runs(user_id);
+
+-- Reserve positions for items appended to a run (see addAnalysisRunItems).
+-- One UPDATE, so concurrent appends each get their own range and no count is
+-- lost. Returns the first reserved position, or NULL if the run doesn't exist.
+CREATE OR REPLACE FUNCTION reserve_analysis_run_positions(target_run_id UUID, item_count INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  first_position INTEGER;
+BEGIN
+  UPDATE analysis_runs
+  SET total_items = total_items + item_count
+  WHERE id = target_run_id
+  RETURNING total_items - item_count INTO first_position;
+  RETURN first_position;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The API works on runs with the service role after checking the owner; signed-in
+-- users can only read their own runs, and nobody else can read or change any
+-- (added after initial release)
+REVOKE EXECUTE ON FUNCTION reserve_analysis_run_positions(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE analysis_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analysis_run_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own analysis runs" ON analysis_runs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own analysis run items" ON analysis_run_items
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM analysis_runs WHERE id = run_id AND user_id = auth.uid())
+  );
+
+-- ============================================
+-- EXTRACTION CACHE TABLE
+-- What Claude read from a lot, keyed by a hash of the lot's normalized text,
+-- detail fields and image URLs. Any change to those is a new key.
+-- ============================================
+CREATE TABLE IF NOT EXISTS extraction_cache (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  content_hash TEXT NOT NULL UNIQUE,
+  fields JSONB NOT NULL                    -- Title, description, category, condition, size, shipping, exclusion
+);
+
+-- No policies: only the server, with the service role key, reads or writes the cache
+ALTER TABLE extraction_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { centralDateString, centralDayBoundary, centralTimeToDate } from '@/lib/auctionTime';
+
+describe('centralTimeToDate', () => {
+  it('uses CST in winter and CDT in summer', () => {
+    expect(centralTimeToDate(2025, 0, 15, 18).toISOString()).toBe('2025-01-16T00:00:00.000Z');
+    expect(centralTimeToDate(2025, 6, 15, 18).toISOString()).toBe('2025-07-15T23:00:00.000Z');
+  });
+
+  it('switches offset at the March 9, 2025 change', () => {
+    expect(centralTimeToDate(2025, 2, 8, 18).toISOString()).toBe('2025-03-09T00:00:00.000Z');
+    expect(centralTimeToDate(2025, 2, 9, 1, 59).toISOString()).toBe('2025-03-09T07:59:00.000Z');
+    expect(centralTimeToDate(2025, 2, 9, 3).toISOString()).toBe('2025-03-09T08:00:00.000Z');
+    expect(centralTimeToDate(2025, 2, 9, 18).toISOString()).toBe('2025-03-09T23:00:00.000Z');
+  });
+
+  it('switches offset at the November 2, 2025 change', () => {
+    expect(centralTimeToDate(2025, 10, 1, 18).toISOString()).toBe('2025-11-01T23:00:00.000Z');
+    expect(centralTimeToDate(2025, 10, 2, 0, 30).toISOString()).toBe('2025-11-02T05:30:00.000Z');
+    expect(centralTimeToDate(2025, 10, 2, 2).toISOString()).toBe('2025-11-02T08:00:00.000Z');
+    expect(centralTimeToDate(2025, 10, 2, 18).toISOString()).toBe('2025-11-03T00:00:00.000Z');
+  });
+
+  it('crosses the year boundary in UTC', () => {
+    expect(centralTimeToDate(2025, 11, 31, 20).toISOString()).toBe('2026-01-01T02:00:00.000Z');
+  });
+});
+
+describe('centralDayBoundary', () => {
+  it('spans the short day in March and the long day in November', () => {
+    expect(centralDayBoundary('2025-03-09').toISOString()).toBe('2025-03-09T06:00:00.000Z');
+    expect(centralDayBoundary('2025-03-09', true).toISOString()).toBe('2025-03-10T04:59:59.000Z');
+    expect(centralDayBoundary('2025-11-02').toISOString()).toBe('2025-11-02T05:00:00.000Z');
+    expect(centralDayBoundary('2025-11-02', true).toISOString()).toBe('2025-11-03T05:59:59.000Z');
+  });
+
+  it('ends New Year\'s Eve in the next UTC year', () => {
+    expect(centralDayBoundary('2025-12-31', true).toISOString()).toBe('2026-01-01T05:59:59.000Z');
+    expect(centralDayBoundary('2026-01-01').toISOString()).toBe('2026-01-01T06:00:00.000Z');
+  });
+});
+
+describe('centralDateString', () => {
+  it('reads the Central date, not the UTC one, across New Year', () => {
+    // 11 PM on Dec 31 Central is already Jan 1 in UTC
+    const lateNewYearsEve = new Date('2026-01-01T05:00:00Z');
+
+    expect(centralDateString(0, lateNewYearsEve)).toBe('2025-12-31');
+    expect(centralDateString(1, lateNewYearsEve)).toBe('2026-01-01');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisSettings, AnalyzedItem, ParsedItem } from '@/lib/types';
+import { calculateProfit } from '@/services/profitCalculator';
+import { shareTripCosts } from '@/services/batchAnalyzer';
+
+const settings: AnalysisSettings = {
+  profit_min_dollars: 20,
+  profit_min_percent: 30,
+  selling_fee_percent: 13
+};
+
+// A $50 lot valued at $300, priced as if it made a 30-mile pickup trip alone
+function analyzed(id: string, auctionId: string, estimatedValue = 300): AnalyzedItem {
+  const item: ParsedItem = {
+    id,
+    title: `Lot ${id}`,
+    description: '',
+    currentBid: 50,
+    category: 'Tools',
+    condition: 'used',
+    sizeClass: 'small',
+    auctionUrl: `https://www.k-bid.com/auction/${auctionId}/item/${id}`,
+    shippingAvailable: true,
+    excluded: false,
+    auctionId,
+    distanceMiles: 30
+  };
+  const valuation = {
+    estimatedValue,
+    lowEstimate: estimatedValue,
+    highEstimate: estimatedValue,
+    confidence: 'medium' as const,
+    sources: [],
+    reasoning: ''
+  };
+  const profit = calculateProfit(item, valuation, { ...settings, max_items: 0, start_date: '', end_date: '' });
+  return {
+    item,
+    valuation,
+    profit,
+    resale: { recommendedChannel: 'eBay', riskScore: 'low', riskReasoning: '', tips: [] },
+    meetsCriteria: true
+  };
+}
+
+describe('shareTripCosts', () => {
+  it('splits one trip evenly across the qualifying lots from the same pickup', () => {
+    const shared = shareTripCosts([analyzed('1', '81234'), analyzed('2', '81234'), analyzed('3', '81234')], settings);
+
+    for (const { profit } of shared) {
+      expect(profit).toMatchObject({ travelCost: 40.2, amortizedTravelCost: 13.4 });
+    }
+  });
+
+  it('leaves a lot that is alone at its pickup with the whole trip', () => {
+    const alone = analyzed('4', '81240');
+    const [, , result] = shareTripCosts([analyzed('1', '81234'), analyzed('2', '81234'), alone], settings);
+
+    expect(result).toBe(alone);
+    expect(result.profit.amortizedTravelCost).toBe(40.2);
+  });
+
+  it('does not count lots that fail before travel toward the split', () => {
+    // Worth less than its bid, so nobody would make the trip for it
+    const loser = analyzed('3', '81234', 40);
+    const shared = shareTripCosts([analyzed('1', '81234'), analyzed('2', '81234'), loser], settings);
+
+    expect(shared[0].profit.amortizedTravelCost).toBe(20.1);
+    expect(shared[1].profit.amortizedTravelCost).toBe(20.1);
+    expect(shared[2]).toBe(loser);
+  });
+
+  it('re-checks the criteria with the shared cost', () => {
+    // At $140 the whole trip pushes the max bid under the $50 bid; a third of it doesn't
+    const lots = [analyzed('1', '81234', 140), analyzed('2', '81234', 140), analyzed('3', '81234', 140)];
+    for (const lot of lots) lot.meetsCriteria = false;
+
+    expect(shareTripCosts(lots, settings).map(result => result.meetsCriteria)).toEqual([true, true, true]);
+  });
+});
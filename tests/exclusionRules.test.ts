@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedItem } from '@/lib/types';
+import { DEFAULT_EXCLUSION_RULES, mapToFilterCategory } from '@/lib/config';
+import { exclusionReason } from '@/services/exclusionRules';
+
+function lot(category: string): ParsedItem {
+  return {
+    id: '1',
+    title: 'Lot',
+    description: '',
+    currentBid: 10,
+    category,
+    condition: 'used',
+    sizeClass: 'small',
+    auctionUrl: 'https://www.k-bid.com/auction/1/item/1',
+    shippingAvailable: true,
+    excluded: false
+  };
+}
+
+describe('mapToFilterCategory', () => {
+  it('keeps everyday categories out of the excluded ones', () => {
+    for (const category of ['Household', 'Housewares', 'Clothing', 'Personal Care', 'Office Supplies', 'Building Materials', 'Mixed Lot']) {
+      expect(mapToFilterCategory(category)).toBe('Household & Estate');
+    }
+    expect(mapToFilterCategory('Trading Cards')).not.toBe('Vehicles & Marine');
+  });
+
+  it('matches whole words, singular or plural', () => {
+    expect(mapToFilterCategory('Cars & Trucks')).toBe('Vehicles & Marine');
+    expect(mapToFilterCategory('Vacant Lot')).toBe('Real Estate');
+    expect(mapToFilterCategory('Restaurant Equipment')).toBe('Commercial & Industrial');
+    expect(mapToFilterCategory('Smartphones')).toBe('Technology');
+    expect(mapToFilterCategory('Sporting Goods')).toBe('Sporting Goods & Hobbies');
+  });
+
+  it('returns a filter category given as-is', () => {
+    expect(mapToFilterCategory('Real Estate')).toBe('Real Estate');
+    expect(mapToFilterCategory('household & estate')).toBe('Household & Estate');
+  });
+});
+
+describe('exclusionReason with the default rules', () => {
+  it('keeps common categories', () => {
+    for (const category of ['Household', 'Housewares', 'Clothing', 'Personal Care', 'Trading Cards', 'Office Supplies', 'Electronics', 'Tools']) {
+      expect(exclusionReason(lot(category), DEFAULT_EXCLUSION_RULES)).toBeUndefined();
+    }
+  });
+
+  it('excludes vehicles, real estate and commercial equipment', () => {
+    expect(exclusionReason(lot('Vehicles'), DEFAULT_EXCLUSION_RULES)).toBe('Excluded category (Vehicles & Marine)');
+    expect(exclusionReason(lot('Real Estate'), DEFAULT_EXCLUSION_RULES)).toBe('Excluded category (Real Estate)');
+    expect(exclusionReason(lot('Industrial Machinery'), DEFAULT_EXCLUSION_RULES)).toBe('Excluded category (Commercial & Industrial)');
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchHtml } from '@/services/kbidClient';
+
+const fetchMock = vi.fn();
+
+function page(status: number, body = '', headers: Record<string, string> = {}): Response {
+  return new Response(status === 304 ? null : body, { status, headers });
+}
+
+// A host per call so neither the page cache nor the rate limiter carries over
+let urlCount = 0;
+const nextUrl = () => `https://host${++urlCount}.k-bid.test/auction/1`;
+
+describe('fetchHtml', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('retries a gateway error', async () => {
+    fetchMock
+      .mockResolvedValueOnce(page(503, 'busy'))
+      .mockResolvedValueOnce(page(200, '<html>ok</html>'));
+
+    const result = fetchHtml(nextUrl());
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('<html>ok</html>');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry errors that will come back the same', async () => {
+    for (const status of [404, 500, 501, 505]) {
+      fetchMock.mockResolvedValueOnce(page(status, 'nope'));
+      await expect(fetchHtml(nextUrl())).rejects.toThrow(`HTTP ${status}`);
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('revalidates a cached page and keeps it on 304', async () => {
+    const url = nextUrl();
+    fetchMock.mockResolvedValueOnce(page(200, '<html>v1</html>', { etag: '"v1"' }));
+    await fetchHtml(url);
+
+    fetchMock.mockResolvedValueOnce(page(304));
+    await expect(fetchHtml(url, { maxAge: 0 })).resolves.toBe('<html>v1</html>');
+    expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"');
+  });
+
+  it('sends no conditional headers without a cached page and refetches on a stray 304', async () => {
+    fetchMock
+      .mockResolvedValueOnce(page(304))
+      .mockResolvedValueOnce(page(200, '<html>fresh</html>'));
+
+    await expect(fetchHtml(nextUrl())).resolves.toBe('<html>fresh</html>');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init.headers['If-None-Match']).toBeUndefined();
+      expect(init.headers['If-Modified-Since']).toBeUndefined();
+    }
+  });
+
+  it('stops waiting to retry once cancelled', async () => {
+    const controller = new AbortController();
+    fetchMock.mockResolvedValue(page(503, 'busy'));
+
+    const result = fetchHtml(nextUrl(), { signal: controller.signal });
+    const settled = expect(result).rejects.toThrow('cancelled');
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort(new Error('cancelled'));
+    await settled;
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+});
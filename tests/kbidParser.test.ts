@@ -0,0 +1,202 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  parseAuctionList,
+  parseAuctionTerms,
+  parseEndTime,
+  parseLotCards,
+  parseLotPage,
+  parsePageCount
+} from '@/services/kbidParser';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '..', 'fixtures', 'kbid', `${name}.html`), 'utf8');
+}
+
+describe('parseAuctionList', () => {
+  it('reads every auction on the index with its close time and pickup', () => {
+    const auctions = parseAuctionList(fixture('auction-list'));
+
+    expect(auctions.map(a => a.id)).toEqual(['81234', '81240', '81177']);
+    expect(auctions[0]).toMatchObject({
+      url: 'https://www.k-bid.com/auction/81234',
+      title: 'Spring Tool & Shop Liquidation',
+      endText: 'Begins Closing: 3/18/2025 6:00 PM',
+      pickup: { city: 'Anoka', state: 'MN', zip: '55303' }
+    });
+    // The "View Lots" link's query string doesn't leak into the auction URL
+    expect(auctions[1].url).toBe('https://www.k-bid.com/auction/81240');
+  });
+});
+
+describe('parseLotCards', () => {
+  it('reads lot cards from an auction page', () => {
+    const cards = parseLotCards(fixture('auction-page'));
+
+    expect(cards.map(card => card.lotNumber)).toEqual(['1', '2', '3', '4']);
+    expect(cards[0]).toMatchObject({
+      url: 'https://www.k-bid.com/auction/81234/item/1',
+      auctionId: '81234',
+      title: 'DeWalt 20V Max Cordless Drill Kit',
+      currentBid: 45,
+      bidCount: 7,
+      bidderCount: 3,
+      imageUrl: 'https://cdn.k-bid.com/lots/81234/1/thumb.jpg',
+      endText: 'Closes: 3/18/2025 6:00 PM',
+      isClosed: false,
+      isExtended: false
+    });
+  });
+
+  it('handles thousands separators, lazy images, extensions, unbid and closed lots', () => {
+    const [, chest, handTools, impact] = parseLotCards(fixture('auction-page'));
+
+    expect(chest.currentBid).toBe(1250);
+    expect(chest.imageUrl).toBe('https://cdn.k-bid.com/lots/81234/2/thumb.jpg');
+    expect(chest.isExtended).toBe(true);
+
+    // An opening bid is not a current bid
+    expect(handTools.currentBid).toBeNull();
+    expect(handTools.bidCount).toBeNull();
+
+    expect(impact.isClosed).toBe(true);
+  });
+
+  it('reads search results spanning auctions', () => {
+    const cards = parseLotCards(fixture('search-page'));
+
+    expect(cards.map(card => card.auctionId)).toEqual(['81234', '81240', '81177']);
+    expect(cards[1]).toMatchObject({
+      url: 'https://www.k-bid.com/auction/81240/item/17',
+      title: 'Ryobi 18V Drill/Driver with Battery',
+      currentBid: 12.5,
+      bidCount: 3,
+      endText: 'Closes 3/19/2025 7:30 PM',
+      pickup: { city: 'Lakeville', state: 'MN' }
+    });
+    expect(cards[2].isClosed).toBe(true);
+  });
+});
+
+describe('parseLotPage', () => {
+  it('reads the details of an open lot', () => {
+    const page = parseLotPage(fixture('lot-detail'), 'https://www.k-bid.com/auction/81234/item/1');
+
+    expect(page).toMatchObject({
+      title: 'DeWalt 20V Max Cordless Drill Kit',
+      lotNumber: '1',
+      currentBid: 45,
+      bidCount: 7,
+      bidderCount: 3,
+      pickupAddress: '1420 Industrial Blvd NE, Anoka, MN 55303',
+      pickupWindow: 'Thursday 3/20/2025 10:00 AM - 4:00 PM',
+      seller: 'Northstar Liquidators LLC',
+      endText: 'Closes: 3/18/2025 6:00 PM',
+      isClosed: false,
+      isExtended: false
+    });
+    expect(page.description).toContain('Untested under load.');
+    expect(page.shippingPolicy).toMatch(/^Shipping available on small items/);
+    // Full-size photos from the gallery only, not the related lots
+    expect(page.imageUrls).toEqual([
+      'https://cdn.k-bid.com/lots/81234/1/full-1.jpg',
+      'https://cdn.k-bid.com/lots/81234/1/full-2.jpg'
+    ]);
+  });
+
+  it('reads the bid history newest first, in Central time', () => {
+    const { bidHistory } = parseLotPage(fixture('lot-detail'));
+
+    expect(bidHistory).toHaveLength(7);
+    expect(bidHistory[0]).toEqual({ amount: 45, placedAt: '2025-03-18T22:41:12.000Z', bidder: 'Bidder 4471' });
+    expect(bidHistory[6]).toEqual({ amount: 10, placedAt: '2025-03-15T13:30:00.000Z', bidder: 'Bidder 2093' });
+  });
+
+  it('marks an ended lot closed without taking a related lot\'s bid', () => {
+    const page = parseLotPage(fixture('closed-lot'));
+
+    expect(page).toMatchObject({
+      title: 'Milwaukee M18 Impact Driver',
+      lotNumber: '4',
+      currentBid: 60,
+      bidCount: 9,
+      bidderCount: 4,
+      isClosed: true
+    });
+    expect(page.endText).toBeUndefined();
+    expect(page.bidHistory).toEqual([]);
+  });
+});
+
+describe('parseAuctionTerms', () => {
+  it('reads the premium, tax and lot fee from an auction page', () => {
+    expect(parseAuctionTerms(fixture('auction-page'))).toEqual({
+      buyerPremiumRate: 0.13,
+      salesTaxRate: 0.06875,
+      lotFee: 1
+    });
+  });
+
+  it('counts each kind of fee once when the terms repeat it', () => {
+    expect(parseAuctionTerms(fixture('auction-terms'))).toEqual({
+      buyerPremiumRate: 0.15,
+      salesTaxRate: 0.07375,
+      lotFee: 3.5
+    });
+  });
+});
+
+describe('parsePageCount', () => {
+  it('reads the highest page number from the pagination links', () => {
+    expect(parsePageCount(fixture('auction-list'))).toBe(3);
+    expect(parsePageCount(fixture('auction-page'))).toBe(2);
+    expect(parsePageCount(fixture('search-page'))).toBe(2);
+  });
+
+  it('is 1 for a page without pagination', () => {
+    expect(parsePageCount(fixture('closed-lot'))).toBe(1);
+  });
+});
+
+describe('parseEndTime', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads close times on the fixture pages as Central time', () => {
+    const [lot] = parseLotCards(fixture('auction-page'));
+    const [auction, , pastAuction] = parseAuctionList(fixture('auction-list'));
+
+    // CDT (UTC-5) after the March 9, 2025 change
+    expect(parseEndTime(lot.endText || '').iso).toBe('2025-03-18T23:00:00.000Z');
+    expect(parseEndTime(auction.endText || '').iso).toBe('2025-03-18T23:00:00.000Z');
+    expect(parseEndTime(pastAuction.endText || '').iso).toBe('2025-03-12T22:00:00.000Z');
+  });
+
+  it('rolls a date without a year that has passed into next year', () => {
+    vi.useFakeTimers();
+
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+    expect(parseEndTime('Closes Mar 18, 6:00 PM').iso).toBe('2025-03-18T23:00:00.000Z');
+
+    vi.setSystemTime(new Date('2025-04-01T12:00:00Z'));
+    expect(parseEndTime('Closes Mar 18, 6:00 PM').iso).toBe('2026-03-18T23:00:00.000Z');
+  });
+
+  it('rolls a numeric date without a year across New Year', () => {
+    vi.useFakeTimers();
+    // Noon on Dec 31, 2025, Central
+    vi.setSystemTime(new Date('2025-12-31T18:00:00Z'));
+
+    expect(parseEndTime('Closes: 12/31 8:00 PM').iso).toBe('2026-01-01T02:00:00.000Z');
+    expect(parseEndTime('Closes: 1/2 8:00 PM').iso).toBe('2026-01-03T02:00:00.000Z');
+    expect(parseEndTime('Ends 1/2').iso).toBe('2026-01-03T05:59:00.000Z');
+    // A year on the page is taken as given
+    expect(parseEndTime('Closes: 1/2/2025 8:00 PM').iso).toBe('2025-01-03T02:00:00.000Z');
+  });
+
+  it('returns null for text without a date', () => {
+    expect(parseEndTime('Lot is closed')).toEqual({ date: null, iso: null });
+  });
+});
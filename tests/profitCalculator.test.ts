@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisParams, AuctionTerms, ParsedItem, ValuationResult } from '@/lib/types';
+import { calculateProfit, calculateTravelCost, totalAcquisitionCost } from '@/services/profitCalculator';
+
+const params: AnalysisParams = {
+  profit_min_dollars: 20,
+  profit_min_percent: 30,
+  selling_fee_percent: 13,
+  max_items: 0,
+  start_date: '',
+  end_date: ''
+};
+
+function lot(currentBid: number, auctionTerms?: AuctionTerms): ParsedItem {
+  return {
+    id: '1',
+    title: 'Cordless drill',
+    description: '',
+    currentBid,
+    category: 'Tools',
+    condition: 'used',
+    sizeClass: 'small',
+    auctionUrl: 'https://www.k-bid.com/auction/1/item/1',
+    shippingAvailable: true,
+    excluded: false,
+    auctionTerms
+  };
+}
+
+function valuedAt(estimatedValue: number): ValuationResult {
+  return {
+    estimatedValue,
+    lowEstimate: estimatedValue,
+    highEstimate: estimatedValue,
+    confidence: 'medium',
+    sources: [],
+    reasoning: ''
+  };
+}
+
+describe('totalAcquisitionCost', () => {
+  it.each<[string, number, AuctionTerms, number]>([
+    ['premium only', 100, { buyerPremiumRate: 0.1, salesTaxRate: 0, lotFee: 0 }, 110],
+    ['tax only', 100, { buyerPremiumRate: 0, salesTaxRate: 0.07375, lotFee: 0 }, 107.375],
+    ['lot fee only', 100, { buyerPremiumRate: 0, salesTaxRate: 0, lotFee: 2 }, 102],
+    ['tax on bid plus premium, then the lot fee', 100, { buyerPremiumRate: 0.13, salesTaxRate: 0.06875, lotFee: 1 }, 121.76875],
+    ['every fee at once', 100, { buyerPremiumRate: 0.15, salesTaxRate: 0.07375, lotFee: 3.5 }, 126.98125],
+    ['the lot fee even at a $0 bid', 0, { buyerPremiumRate: 0.15, salesTaxRate: 0.07375, lotFee: 3.5 }, 3.5]
+  ])('adds %s', (_, bid, terms, expected) => {
+    expect(totalAcquisitionCost(bid, terms)).toBeCloseTo(expected, 6);
+  });
+
+  it('falls back to a 10% premium without terms', () => {
+    expect(totalAcquisitionCost(100)).toBeCloseTo(110, 6);
+  });
+});
+
+describe('calculateProfit', () => {
+  const terms: AuctionTerms = { buyerPremiumRate: 0.13, salesTaxRate: 0.06875, lotFee: 1 };
+
+  it('prices the current bid with the auction\'s fees', () => {
+    // $300 value - 13% selling fees - $8 shipping = $253 net
+    const profit = calculateProfit(lot(100, terms), valuedAt(300), params);
+
+    expect(profit).toMatchObject({
+      fees: 39,
+      shippingEstimate: 8,
+      acquisitionFees: 21.77,
+      actualProfit: 131.23,
+      breakEvenPrice: 208.66
+    });
+  });
+
+  it('sets the max bid so both the profit and ROI minimums hold after fees', () => {
+    const profit = calculateProfit(lot(100, terms), valuedAt(300), params);
+
+    // The 30% ROI minimum binds before the $20 one
+    expect(profit.maxBid).toBe(160.32);
+    expect(profit.expectedROI).toBeCloseTo(30, 1);
+    expect(profit.expectedProfit).toBeGreaterThanOrEqual(params.profit_min_dollars);
+  });
+
+  it('never suggests a negative max bid', () => {
+    expect(calculateProfit(lot(5, terms), valuedAt(10), params).maxBid).toBe(0);
+  });
+});
+
+describe('calculateTravelCost', () => {
+  it('prices the round trip by the mile, plus driving time when it has a value', () => {
+    // 60 miles there and back at $0.67
+    expect(calculateTravelCost(30, {})).toBeCloseTo(40.2, 6);
+    // 60 miles at 45 mph is 1h20m
+    expect(calculateTravelCost(30, { travel_cost_per_mile: 0.5, travel_time_value_per_hour: 30 })).toBeCloseTo(70, 6);
+  });
+
+  it('is free without a distance', () => {
+    expect(calculateTravelCost(undefined, {})).toBe(0);
+    expect(calculateTravelCost(0, {})).toBe(0);
+  });
+});
+
+describe('calculateProfit with a pickup trip', () => {
+  const far = { ...lot(50), distanceMiles: 30 };
+
+  it('charges the whole trip to a lot picked up alone', () => {
+    const alone = calculateProfit(far, valuedAt(300), params);
+    const local = calculateProfit(lot(50), valuedAt(300), params);
+
+    expect(alone).toMatchObject({ travelCost: 40.2, amortizedTravelCost: 40.2 });
+    expect(alone.actualProfit).toBeCloseTo(local.actualProfit - 40.2, 2);
+    expect(alone.maxBid).toBeLessThan(local.maxBid);
+  });
+
+  it('charges each lot its share of a trip made for several', () => {
+    const shared = calculateProfit(far, valuedAt(300), params, 3);
+
+    expect(shared).toMatchObject({ travelCost: 40.2, amortizedTravelCost: 13.4 });
+    expect(shared.actualProfit).toBeCloseTo(calculateProfit(lot(50), valuedAt(300), params).actualProfit - 13.4, 2);
+  });
+
+  it('leaves travel out when no trip is counted', () => {
+    expect(calculateProfit(far, valuedAt(300), params, 0)).toMatchObject({ travelCost: 40.2, amortizedTravelCost: 0 });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { RawKBidItem, RedFlag, RedFlagKind, ResaleAdvice } from '@/lib/types';
+import { detectRedFlags, raiseRiskForRedFlags, redFlagValueFactor } from '@/services/redFlags';
+
+function lot(text: string, lotDescription?: string): RawKBidItem {
+  return { text, url: 'https://www.k-bid.com/auction/1/item/1', lotDescription };
+}
+
+function kinds(text: string): RedFlagKind[] {
+  return detectRedFlags(lot(text)).map(flag => flag.kind);
+}
+
+function flag(kind: RedFlagKind, label: string = kind): RedFlag {
+  return { kind, label, source: 'text', evidence: label };
+}
+
+const advice: ResaleAdvice = {
+  recommendedChannel: 'eBay',
+  riskScore: 'low',
+  riskReasoning: 'Steady seller.',
+  tips: []
+};
+
+describe('detectRedFlags', () => {
+  it.each<[string, RedFlagKind]>([
+    ['Sold for parts', 'parts_only'],
+    ['Parts or repair', 'parts_only'],
+    ['Non-working unit', 'parts_only'],
+    ["Doesn't power on", 'parts_only'],
+    ['Needs repair', 'parts_only'],
+    ['Untested', 'untested'],
+    ['Unable to test, no outlet', 'untested'],
+    ['Unknown working condition', 'untested'],
+    ['Cracked screen', 'damaged'],
+    ['Some water damage on the base', 'damaged'],
+    ['Missing remote', 'missing_parts'],
+    ['Comes without the charger', 'missing_parts'],
+    ['Incomplete set', 'missing_parts'],
+    ['Sold as-is', 'as_is']
+  ])('flags "%s" as %s', (text, kind) => {
+    expect(kinds(text)).toEqual([kind]);
+  });
+
+  it('skips negated phrases', () => {
+    expect(kinds('Not damaged, never broken, no missing parts')).toEqual([]);
+    expect(kinds("Isn't cracked")).toEqual([]);
+  });
+
+  it('ignores the "as is, where is" boilerplate', () => {
+    expect(kinds('All items sold as is, where is.')).toEqual([]);
+    expect(kinds('Sold AS-IS WHERE-IS')).toEqual([]);
+    expect(kinds('Sold as is. Pickup only.')).toEqual(['as_is']);
+  });
+
+  it('reads the lot description with the card text and keeps the evidence', () => {
+    const [found] = detectRedFlags(lot('Cordless drill', 'Battery is fine but the chuck is cracked along one side'));
+
+    expect(found).toMatchObject({ kind: 'damaged', label: 'cracked', source: 'text' });
+    expect(found.evidence).toContain('chuck is cracked');
+  });
+
+  it('keeps one flag per kind and label', () => {
+    const flags = detectRedFlags(
+      lot('Untested. Cracked case.', 'Untested, cracked lid, missing remote'),
+      ['Cracked', 'dented corner']
+    );
+
+    expect(flags.map(f => `${f.source}:${f.kind}:${f.label}`)).toEqual([
+      'text:untested:untested',
+      'text:damaged:cracked',
+      'text:missing_parts:missing remote',
+      'image:damaged:dented corner'
+    ]);
+  });
+
+  it('files photo observations under the first kind they match, else damage', () => {
+    const flags = detectRedFlags(lot('Lamp'), ['Appears broken at the base', 'Faded paint']);
+
+    expect(flags.map(f => [f.kind, f.source])).toEqual([['parts_only', 'image'], ['damaged', 'image']]);
+  });
+});
+
+describe('redFlagValueFactor', () => {
+  it('keeps full value without flags', () => {
+    expect(redFlagValueFactor()).toBe(1);
+    expect(redFlagValueFactor([])).toBe(1);
+  });
+
+  it('counts each kind once and compounds kinds', () => {
+    expect(redFlagValueFactor([flag('damaged', 'cracked'), flag('damaged', 'dented')])).toBe(0.7);
+    expect(redFlagValueFactor([flag('untested'), flag('as_is')])).toBe(0.54);
+  });
+
+  it('never goes below the floor', () => {
+    expect(redFlagValueFactor([flag('parts_only'), flag('untested'), flag('damaged')])).toBe(0.2);
+  });
+});
+
+describe('raiseRiskForRedFlags', () => {
+  it('leaves the advice alone without flags', () => {
+    expect(raiseRiskForRedFlags(advice)).toBe(advice);
+  });
+
+  it('raises the risk to the highest floor among the flags', () => {
+    const raised = raiseRiskForRedFlags(advice, [flag('as_is', 'as is'), flag('parts_only', 'for parts')]);
+
+    expect(raised.riskScore).toBe('high');
+    expect(raised.riskReasoning).toBe('Red flags: as is, for parts. Steady seller.');
+  });
+
+  it('never lowers a higher risk', () => {
+    const risky = { ...advice, riskScore: 'high' as const };
+    expect(raiseRiskForRedFlags(risky, [flag('untested')])).toBe(risky);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import * as schema from '@/lib/schema';
+import { SchemaError } from '@/lib/schema';
+
+const range = schema.refine(
+  schema.object({
+    low: schema.number({ min: 0 }),
+    high: schema.number({ min: 0 })
+  }),
+  value => value.low <= value.high,
+  'low must not exceed high'
+);
+
+describe('schema parse errors', () => {
+  it('names the field and what was wrong with it', () => {
+    const listing = schema.object({
+      title: schema.string({ nonEmpty: true }),
+      tags: schema.array(schema.string(), { max: 2 }),
+      condition: schema.oneOf(['new', 'used'] as const),
+      price: schema.object({ amount: schema.number({ min: 0 }) })
+    });
+    const valid = { title: 'Drill', tags: [], condition: 'used', price: { amount: 5 } };
+
+    expect(() => listing.parse({ ...valid, title: '  ' })).toThrow('title: expected a non-empty string, got "  "');
+    expect(() => listing.parse({ ...valid, tags: ['a', 7] })).toThrow('tags[1]: expected a string, got 7');
+    expect(() => listing.parse({ ...valid, tags: ['a', 'b', 'c'] })).toThrow('tags: expected at most 2 entries, got 3');
+    expect(() => listing.parse({ ...valid, condition: 'mint' })).toThrow('condition: expected one of "new", "used", got "mint"');
+    expect(() => listing.parse({ ...valid, price: { amount: -1 } })).toThrow('price.amount: expected a number >= 0, got -1');
+    expect(() => listing.parse({ ...valid, price: undefined })).toThrow('price: expected an object, got nothing');
+    expect(() => listing.parse([])).toThrow('response: expected an object, got []');
+    expect(() => listing.parse(null)).toThrow(SchemaError);
+  });
+
+  it('trims strings, matches oneOf ignoring case and drops unknown fields', () => {
+    const shape = schema.object({ name: schema.string(), risk: schema.oneOf(['low', 'high'] as const) });
+
+    expect(shape.parse({ name: ' Drill ', risk: ' HIGH', extra: true })).toEqual({ name: 'Drill', risk: 'high' });
+  });
+
+  it('rejects NaN and infinite numbers', () => {
+    expect(() => schema.number().parse(NaN)).toThrow('expected a number');
+    expect(() => schema.number().parse(Infinity)).toThrow('expected a number');
+  });
+});
+
+describe('optional', () => {
+  it('turns missing or null into the fallback', () => {
+    const tips = schema.optional(schema.array(schema.string()), []);
+
+    expect(tips.parse(undefined)).toEqual([]);
+    expect(tips.parse(null)).toEqual([]);
+    expect(tips.parse(['Clean it'])).toEqual(['Clean it']);
+    expect(schema.optional(schema.string()).parse(undefined)).toBeUndefined();
+  });
+
+  it('still validates a value that is present', () => {
+    const shape = schema.object({ quickTake: schema.optional(schema.string()) });
+
+    expect(() => shape.parse({ quickTake: 3 })).toThrow('quickTake: expected a string, got 3');
+  });
+});
+
+describe('refine', () => {
+  it('passes values that meet the check', () => {
+    expect(range.parse({ low: 10, high: 20 })).toEqual({ low: 10, high: 20 });
+  });
+
+  it('reports the check at the path it was applied to', () => {
+    expect(() => range.parse({ low: 30, high: 20 })).toThrow('response: low must not exceed high');
+    expect(() => schema.object({ estimate: range }).parse({ estimate: { low: 30, high: 20 } }))
+      .toThrow('estimate: low must not exceed high');
+  });
+
+  it('reports field errors before running the check', () => {
+    expect(() => range.parse({ low: 'ten', high: 20 })).toThrow('low: expected a number, got "ten"');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { RawKBidItem } from '@/lib/types';
+import { buildHealthReport } from '@/services/scrapeHealth';
+
+function lot(index: number, fields: Partial<RawKBidItem> = {}): RawKBidItem {
+  return {
+    text: `Lot ${index}`,
+    url: `https://www.k-bid.com/auction/1/item/${index}`,
+    title: `Lot ${index}`,
+    imageUrl: `https://cdn.k-bid.com/lots/1/${index}/thumb.jpg`,
+    auctionEndDate: '2025-03-18T23:00:00.000Z',
+    extractionPath: 'lot_links',
+    currentBid: 10,
+    ...fields
+  };
+}
+
+describe('buildHealthReport', () => {
+  it('reports a fully parsed scrape as healthy', () => {
+    const report = buildHealthReport([lot(1), lot(2), lot(3)], 'kbid:index');
+
+    expect(report.totalLots).toBe(3);
+    expect(report.ratios).toEqual({ bid: 1, title: 1, image: 1, endDate: 1 });
+    expect(report.extractionPaths).toEqual({ lot_links: 3 });
+    expect(report.warnings).toEqual([]);
+  });
+
+  it('counts a $0 opening bid as a bid', () => {
+    const items = [lot(1), lot(2, { currentBid: 0 }), lot(3, { currentBid: 0 }), lot(4, { currentBid: 0 })];
+    const report = buildHealthReport(items, 'kbid:index');
+
+    expect(report.ratios.bid).toBe(1);
+    expect(report.warnings).toEqual([]);
+  });
+
+  it('warns when lots are missing bids', () => {
+    const items = [lot(1), lot(2, { currentBid: undefined }), lot(3, { currentBid: undefined })];
+    const report = buildHealthReport(items, 'kbid:index');
+
+    expect(report.ratios.bid).toBe(0.3333);
+    expect(report.warnings).toEqual(['Only 33% of lots have a current bid (expected 80%)']);
+  });
+
+  it('warns when most lots came from the generic link fallback', () => {
+    const items = [lot(1), lot(2, { extractionPath: 'generic_links' }), lot(3, { extractionPath: 'generic_links' })];
+    const report = buildHealthReport(items, 'kbid:index');
+
+    expect(report.extractionPaths).toEqual({ lot_links: 1, generic_links: 2 });
+    expect(report.warnings).toHaveLength(1);
+    expect(report.warnings[0]).toMatch(/^67% of lots were found by the generic link fallback/);
+  });
+
+  it('warns when nothing was found', () => {
+    expect(buildHealthReport([], 'kbid:index').warnings).toEqual(['No lots found']);
+  });
+});
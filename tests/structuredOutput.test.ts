@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as schema from '@/lib/schema';
+import { AnalysisError } from '@/lib/analysisErrors';
+import { requestStructured } from '@/services/structuredOutput';
+
+const create = vi.hoisted(() => vi.fn());
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { create };
+  }
+}));
+
+function reply(text: string) {
+  return { content: [{ type: 'text', text }] };
+}
+
+const valuation = schema.object({
+  estimatedValue: schema.number({ min: 0 }),
+  confidence: schema.oneOf(['low', 'medium', 'high'] as const)
+});
+
+describe('requestStructured', () => {
+  beforeEach(() => {
+    create.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('returns a valid first reply as the model\'s', async () => {
+    create.mockResolvedValueOnce(reply('```json\n{"estimatedValue": 40, "confidence": "High"}\n```'));
+
+    const result = await requestStructured(valuation, 'Value this drill', { label: 'valuation' });
+
+    expect(result).toEqual({ value: { estimatedValue: 40, confidence: 'high' }, source: 'model' });
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks once more with the problem spelled out and marks the answer repaired', async () => {
+    create
+      .mockResolvedValueOnce(reply('{"estimatedValue": "forty", "confidence": "high"}'))
+      .mockResolvedValueOnce(reply('{"estimatedValue": 40, "confidence": "high"}'));
+
+    const result = await requestStructured(valuation, 'Value this drill', { label: 'valuation' });
+
+    expect(result).toEqual({ value: { estimatedValue: 40, confidence: 'high' }, source: 'repaired' });
+    const { messages } = create.mock.calls[1][0];
+    expect(messages).toHaveLength(3);
+    expect(messages[1]).toEqual({ role: 'assistant', content: '{"estimatedValue": "forty", "confidence": "high"}' });
+    expect(messages[2].content).toContain('estimatedValue: expected a number, got "forty"');
+  });
+
+  it('fails with json_parse_failed when the repair is invalid too', async () => {
+    create
+      .mockResolvedValueOnce(reply('Sure! It is worth about $40.'))
+      .mockResolvedValueOnce(reply('{"estimatedValue": 40}'));
+
+    const error = await requestStructured(valuation, 'Value this drill', { label: 'valuation' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.reason).toBe('json_parse_failed');
+    expect(error.message).toBe('Invalid valuation response after repair: confidence: expected one of "low", "medium", "high", got nothing');
+    expect(create.mock.calls[1][0].messages[2].content).toContain('response is not valid JSON');
+  });
+
+  it('fails without asking again when repair is off', async () => {
+    create.mockResolvedValueOnce(reply('not json'));
+
+    const error = await requestStructured(valuation, 'Value this drill', { label: 'valuation', repair: false }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.reason).toBe('json_parse_failed');
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes API errors through untouched', async () => {
+    const apiError = new Error('overloaded');
+    create.mockRejectedValueOnce(apiError);
+
+    await expect(requestStructured(valuation, 'Value this drill', { label: 'valuation' })).rejects.toBe(apiError);
+  });
+});